@@ -0,0 +1,29 @@
+import { createRequire } from "node:module";
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { createError } from "conway-errors";
+import { createEmitRecorder, expectConwayError } from "conway-errors/testing";
+
+const require = createRequire(import.meta.url);
+
+test("testing entry accepts errors of ESM build", async () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }]);
+  const recorder = createEmitRecorder();
+  recorder.attach(createErrorContext);
+
+  const error = createErrorContext("Payment").feature("Charge")("NetworkError", "Timeout");
+  expectConwayError(error).toHaveType("NetworkError").toHaveContext("Payment").toHaveFeature("Charge");
+
+  await error.emit();
+  assert.equal(recorder.errors, [error]);
+});
+
+test("testing entry accepts errors of CommonJS build", () => {
+  const { createError } = require("conway-errors");
+  const { expectConwayError } = require("conway-errors/testing");
+
+  const error = createError([{ errorType: "NetworkError" }])("Payment").feature("Charge")("NetworkError", "Timeout");
+  expectConwayError(error).toHaveType("NetworkError");
+});
+
+test.run();
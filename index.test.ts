@@ -2,7 +2,50 @@ import { test } from "uvu";
 import { snoop } from "snoop";
 import * as assert from "uvu/assert";
 
-import { createError, isConwayError } from "./index";
+import {
+  andThen,
+  type AnyFeatureOfSubcontext,
+  consoleTransport,
+  createEmitPipeline,
+  createDedupeMiddleware,
+  createErrorMetrics,
+  createError,
+  createErrorRegistry,
+  createMessageCatalog,
+  createOwnerTransport,
+  createProblemDetailsHandler,
+  createRateLimitMiddleware,
+  createSamplingMiddleware,
+  defaultFormatMessage,
+  deserializeConwayError,
+  type EmitEvent,
+  findConwayError,
+  getErrorContext,
+  getCauseChain,
+  getContextPaths,
+  getRootCause,
+  isConwayAggregateError,
+  isConwayError,
+  isErrorOfType,
+  isFromContext,
+  isFromFeature,
+  isRetryableError,
+  map,
+  type MessageFormatParts,
+  mapErr,
+  matchConwayError,
+  messageTemplate,
+  paramsSchema,
+  REDACTED_MARKER,
+  type Result,
+  revealRedacted,
+  runWithErrorContext,
+  SERIALIZATION_VERSION,
+  toProblemDetails,
+  unwrap,
+  withRetry,
+} from "./index";
+import { createEmitRecorder, expectConwayError, expectConwayErrorAsync, toErrorSnapshot } from "./testing";
 
 test("UnknownError behavior in different scenarios", () => {
   // Test 1: undefined errorTypes - should always create UnknownError
@@ -712,4 +755,1973 @@ test("error can be thrown or emitted without throwing", () => {
   assert.is(mockedEmit.calls[1].arguments[0], "Context/Feature: Message3");
 });
 
+test("conway error survives JSON round trip", () => {
+  const mockedEmit = snoop((err, extendedParams) => {});
+
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const);
+  const context = createErrorContext("Context");
+  const subcontext = context.subcontext("Subcontext");
+  const featureError = subcontext.feature("Feature");
+
+  const originalError = Object.assign(new Error("Original"), { code: "E_ORIGINAL" });
+  const error = featureError("ErrorType1", "ErrorMessage", { originalError, extendedParams: { a: 1 } });
+
+  const json = JSON.stringify(error);
+  const parsed = JSON.parse(json);
+
+  assert.is(parsed.$type, "ConwayError");
+  assert.is(parsed.version, SERIALIZATION_VERSION);
+  assert.is(parsed.name, "ErrorType1");
+  assert.is(parsed.message, "Context/Subcontext/Feature: ErrorMessage");
+  assert.is(parsed.rootContext, "Context");
+  assert.is(parsed.contextsChunk, "Context/Subcontext");
+  assert.is(parsed.feature, "Feature");
+  assert.equal(parsed.extendedParams, { a: 1 });
+  assert.is(parsed.stack, error.stack);
+
+  const restored = deserializeConwayError(json, {
+    handleEmit: (err, extendedParams) => {
+      mockedEmit.fn(err, extendedParams);
+    },
+  });
+
+  assert.ok(isConwayError(restored));
+  assert.instance(restored, Error);
+  assert.is(restored.name, "ErrorType1");
+  assert.is(restored.message, error.message);
+  assert.is(restored.stack, error.stack);
+  assert.is(restored.rootContext, "Context");
+  assert.is(restored.contextsChunk, "Context/Subcontext");
+  assert.is(restored.feature, "Feature");
+  assert.equal(restored.extendedParams, { a: 1 });
+
+  const restoredOriginal = restored.originalError as Error & { code: string };
+  assert.instance(restoredOriginal, Error);
+  assert.is(restoredOriginal.message, "Original");
+  assert.is(restoredOriginal.stack, originalError.stack);
+  assert.is(restoredOriginal.code, "E_ORIGINAL");
+
+  restored.emit({ b: 2 });
+  assert.ok(mockedEmit.calledOnce);
+  // @ts-ignore
+  assert.is(mockedEmit.calls[0].arguments[0], restored);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments[1], { a: 1, b: 2 });
+});
+
+test("serialization handles nested, plain and circular originalError", () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }, { errorType: "ErrorType2" }] as const);
+  const context = createErrorContext("Context");
+  const featureError = context.feature("Feature");
+
+  const inner = featureError("ErrorType2", "Inner", { originalError: { code: 500, $type: "user data" } });
+  const outer = featureError("ErrorType1", "Outer", { originalError: inner });
+
+  const restored = deserializeConwayError(JSON.stringify(outer));
+  const restoredInner = restored.originalError as any;
+
+  assert.ok(isConwayError(restoredInner));
+  assert.is(restoredInner.name, "ErrorType2");
+  assert.is(restoredInner.message, "Context/Feature: Inner");
+  assert.equal(restoredInner.originalError, { code: 500, $type: "user data" });
+
+  const circular: Record<string, unknown> = { id: 1 };
+  circular.self = circular;
+  const circularError = featureError("ErrorType1", "Circular", { originalError: circular });
+
+  const restoredCircular = deserializeConwayError(JSON.stringify(circularError));
+  assert.equal(restoredCircular.originalError, { id: 1, self: "[Circular]" });
+
+  assert.throws(() => deserializeConwayError(JSON.stringify({ message: "not conway" })), TypeError);
+  assert.throws(
+    () => deserializeConwayError({ ...outer.toJSON(), version: SERIALIZATION_VERSION + 1 }),
+    /Unsupported Conway error serialization version/
+  );
+});
+
+test("serialization keeps own __proto__ keys without changing prototypes", () => {
+  const featureError = createError([{ errorType: "ErrorType1" }] as const)("Context").feature("Feature");
+  const extendedParams = JSON.parse('{"__proto__":{"polluted":true},"a":2}');
+  const originalError = Object.defineProperty(new Error("Cause"), "__proto__", { value: { code: 1 }, enumerable: true });
+
+  const error = featureError("ErrorType1", "Message", { extendedParams, originalError });
+  const restored = deserializeConwayError(JSON.stringify(error));
+  const restoredParams = restored.extendedParams as Record<string, unknown>;
+
+  assert.equal(Object.keys(restoredParams), ["__proto__", "a"]);
+  assert.is(Object.getPrototypeOf(restoredParams), Object.prototype);
+  assert.is(restoredParams.polluted, undefined);
+  assert.equal(Object.getOwnPropertyDescriptor(restoredParams, "__proto__")?.value, { polluted: true });
+
+  const restoredCause = restored.originalError as Error;
+  assert.instance(restoredCause, Error);
+  assert.equal(Object.getOwnPropertyDescriptor(restoredCause, "__proto__")?.value, { code: 1 });
+});
+
+test("originalError is forwarded to native cause", () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const);
+  const context = createErrorContext("Context");
+  const featureError = context.feature("Feature");
+
+  const originalError = new Error("fetch failed");
+  const error = featureError("ErrorType1", "ErrorMessage", { originalError });
+
+  assert.is(error.cause, originalError);
+  assert.ok(error.stack?.includes("Caused by: Error: fetch failed"));
+  assert.ok(error.stack?.includes(originalError.stack as string));
+
+  const withoutCause = featureError("ErrorType1", "ErrorMessage");
+  assert.not.ok("cause" in withoutCause);
+  assert.not.ok(withoutCause.stack?.includes("Caused by:"));
+
+  const withPlainCause = featureError("ErrorType1", "ErrorMessage", { originalError: { code: 500 } });
+  assert.equal(withPlainCause.cause, { code: 500 });
+  assert.ok(withPlainCause.stack?.includes('Caused by: {"code":500}'));
+});
+
+test("cause chain utilities walk through nested errors", () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }, { errorType: "ErrorType2" }] as const);
+  const context = createErrorContext("PaymentForm");
+  const apiFeature = context.subcontext("APIError").feature("APIPaymentError");
+  const formFeature = context.feature("Submit");
+
+  const rootCause = new TypeError("fetch failed");
+  const nativeWrapper = new Error("request failed", { cause: rootCause });
+  const apiError = apiFeature("ErrorType1", "Payment request failed", { originalError: nativeWrapper });
+  const formError = formFeature("ErrorType2", "Submit failed", { originalError: apiError });
+
+  assert.equal(getCauseChain(formError), [formError, apiError, nativeWrapper, rootCause]);
+  assert.is(getRootCause(formError), rootCause);
+  assert.is(getRootCause(rootCause), rootCause);
+  assert.is(findConwayError(formError), formError);
+  assert.is(findConwayError(new Error("outer", { cause: apiError })), apiError);
+  assert.is(findConwayError(rootCause), undefined);
+  assert.equal(getContextPaths(formError), ["PaymentForm/Submit", "PaymentForm/APIError/APIPaymentError"]);
+
+  assert.ok(formError.stack?.includes("Caused by: ErrorType1: PaymentForm/APIError/APIPaymentError"));
+
+  const circular: { cause?: unknown } = {};
+  circular.cause = circular;
+  assert.equal(getCauseChain(circular), [circular]);
+});
+
+test("feature builds ok and err results", () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }, { errorType: "ErrorType2" }] as const);
+  const context = createErrorContext("Context");
+  const featureError = context.feature("Feature");
+
+  const success = featureError.ok(42);
+  assert.equal(success, { ok: true, value: 42 });
+
+  const failure = featureError.err("ErrorType2", "ErrorMessage", { extendedParams: { a: 1 } });
+  assert.is(failure.ok, false);
+  if (!failure.ok) {
+    assert.ok(isConwayError(failure.error));
+    assert.is(failure.error.name, "ErrorType2");
+    assert.is(failure.error.message, "Context/Feature: ErrorMessage");
+    assert.equal(failure.error.extendedParams, { a: 1 });
+  }
+
+  const describe = (result: Result<number, ReturnType<typeof featureError>>) => {
+    if (result.ok) {
+      return `value ${result.value}`;
+    }
+
+    switch (result.error.name) {
+      case "ErrorType1":
+        return "type 1";
+      case "ErrorType2":
+        return "type 2";
+      default: {
+        const exhaustive: never = result.error.name;
+        return exhaustive;
+      }
+    }
+  };
+
+  assert.is(describe(success), "value 42");
+  assert.is(describe(failure), "type 2");
+});
+
+test("result combinators transform and unwrap results", () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const);
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  const doubled = map(featureError.ok(2), (value) => value * 2);
+  assert.equal(doubled, { ok: true, value: 4 });
+
+  const failure = featureError.err("ErrorType1", "ErrorMessage");
+  assert.is(map(failure, (value: number) => value * 2), failure);
+
+  const mapped = mapErr(failure, (error) => error.message);
+  assert.equal(mapped, { ok: false, error: "Context/Feature: ErrorMessage" });
+  assert.equal(mapErr(featureError.ok(1), () => "never"), { ok: true, value: 1 });
+
+  const chained = andThen(featureError.ok(2), (value) =>
+    value > 1 ? featureError.ok(String(value)) : featureError.err("ErrorType1", "too small")
+  );
+  assert.equal(chained, { ok: true, value: "2" });
+  assert.is(andThen(failure, () => featureError.ok(1)), failure);
+
+  assert.is(unwrap(featureError.ok("value")), "value");
+
+  try {
+    unwrap(failure);
+    assert.unreachable("unwrap should throw");
+  } catch (err: any) {
+    assert.is(err, (failure as any).error);
+  }
+});
+
+test("fromPromise and fromThrowable wrap thrown values into feature errors", async () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const);
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  assert.equal(await featureError.fromPromise(Promise.resolve(1), "ErrorType1"), { ok: true, value: 1 });
+
+  const originalError = new Error("fetch failed");
+  const rejected = await featureError.fromPromise(Promise.reject(originalError), "ErrorType1");
+  assert.is(rejected.ok, false);
+  if (!rejected.ok) {
+    assert.is(rejected.error.name, "ErrorType1");
+    assert.is(rejected.error.message, "Context/Feature: fetch failed");
+    assert.is(rejected.error.originalError, originalError);
+  }
+
+  const rejectedWithMessage = await featureError.fromPromise(Promise.reject("boom"), "ErrorType1", "Request failed");
+  if (!rejectedWithMessage.ok) {
+    assert.is(rejectedWithMessage.error.message, "Context/Feature: Request failed");
+    assert.is(rejectedWithMessage.error.originalError, "boom");
+  }
+
+  assert.equal(featureError.fromThrowable(() => "parsed", "ErrorType1"), { ok: true, value: "parsed" });
+
+  const thrown = featureError.fromThrowable(() => JSON.parse("{"), "ErrorType1", "Invalid JSON");
+  assert.is(thrown.ok, false);
+  if (!thrown.ok) {
+    assert.is(thrown.error.message, "Context/Feature: Invalid JSON");
+    assert.instance(thrown.error.originalError, SyntaxError);
+  }
+});
+
+test("fromPromise and fromThrowable normalize thrown values like feature.from", async () => {
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const, {
+    extractors: [
+      (thrown) =>
+        typeof thrown === "object" && thrown !== null && "status" in thrown
+          ? { message: "Request failed", extendedParams: { status: thrown.status } }
+          : undefined,
+    ],
+  });
+  const featureError = createErrorContext("C").feature("F");
+
+  const rejected = await featureError.fromPromise(Promise.reject({ code: 1 }), "ErrorType1");
+  assert.ok(!rejected.ok && rejected.error.message === featureError.from({ code: 1 }, "ErrorType1").message);
+  assert.ok(!rejected.ok && rejected.error.message === 'C/F: {"code":1}');
+
+  const thrown = featureError.fromThrowable(() => {
+    throw { status: 502 };
+  }, "ErrorType1");
+  assert.ok(!thrown.ok);
+  if (!thrown.ok) {
+    assert.is(thrown.error.message, "C/F: Request failed");
+    assert.equal(thrown.error.extendedParams, { status: 502 });
+  }
+
+  const innerError = createErrorContext("Inner").feature("Feature")("ErrorType1", "Timeout");
+  const wrapped = await featureError.fromPromise(Promise.reject(innerError), "ErrorType1");
+  assert.ok(!wrapped.ok && wrapped.error.message === "C/F: Timeout");
+});
+
+test("error types declare typed extendedParams", () => {
+  const mockedEmit = snoop((status: number | undefined, fields: string[] | undefined) => {});
+
+  const createErrorContext = createError(
+    [
+      { errorType: "NetworkError", params: paramsSchema<{ status: number }>() },
+      { errorType: "ValidationError", params: paramsSchema<{ fields: string[] }>() },
+      { errorType: "UntypedError" },
+    ] as const,
+    {
+      handleEmit: (err) => {
+        if (err.name === "NetworkError") {
+          mockedEmit.fn(err.extendedParams?.status, undefined);
+        } else if (err.name === "ValidationError") {
+          mockedEmit.fn(undefined, err.extendedParams?.fields);
+        }
+      },
+    }
+  );
+
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  const networkError = featureError("NetworkError", "Request failed", { extendedParams: { status: 503 } });
+  assert.is(networkError.extendedParams?.status, 503);
+  networkError.emit();
+
+  featureError("ValidationError", "Invalid form", { extendedParams: { fields: ["email"] } }).emit();
+  featureError("UntypedError", "Anything goes", { extendedParams: { any: "value" } });
+  featureError("UntypedError", "No options");
+
+  // @ts-expect-error - params are required for NetworkError
+  featureError("NetworkError", "Request failed");
+  // @ts-expect-error - status is required for NetworkError
+  featureError("NetworkError", "Request failed", { extendedParams: {} });
+  // @ts-expect-error - fields has wrong type
+  featureError("ValidationError", "Invalid form", { extendedParams: { fields: "email" } });
+  // @ts-expect-error - params are required for result errors too
+  featureError.err("NetworkError", "Request failed");
+
+  assert.is(mockedEmit.callCount, 2);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments, [503, undefined]);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, [undefined, ["email"]]);
+});
+
+test("params schema validator runs on error creation", () => {
+  const createErrorContext = createError([
+    {
+      errorType: "NetworkError",
+      params: paramsSchema<{ status: number }>((params) =>
+        typeof (params as { status?: unknown })?.status === "number" ? true : "status must be a number"
+      ),
+    },
+    { errorType: "ValidationError", params: paramsSchema<{ fields: string[] }>((params) => params !== undefined) },
+  ] as const);
+
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  assert.is(featureError("NetworkError", "ErrorMessage", { extendedParams: { status: 500 } }).name, "NetworkError");
+
+  assert.throws(
+    () => featureError("NetworkError", "ErrorMessage", { extendedParams: { status: "500" as unknown as number } }),
+    (err: Error) => err instanceof TypeError && err.message === "Invalid extendedParams for NetworkError: status must be a number"
+  );
+
+  assert.throws(
+    () => featureError("ValidationError", "ErrorMessage", undefined as never),
+    (err: Error) => err.message === "Invalid extendedParams for ValidationError"
+  );
+});
+
+test("matchConwayError dispatches by error type", () => {
+  const createErrorContext = createError(
+    [
+      { errorType: "NetworkError", params: paramsSchema<{ status: number }>() },
+      { errorType: "ValidationError" },
+    ] as const
+  );
+  const appErrors = createErrorContext("App");
+  const featureError = appErrors.feature("Feature");
+
+  const describe = (err: unknown) => {
+    if (!isFromContext(err, appErrors)) {
+      return "foreign";
+    }
+
+    return matchConwayError(err, {
+      NetworkError: (e) => `network ${e.extendedParams?.status}`,
+      ValidationError: (e) => `validation ${e.message}`,
+    });
+  };
+
+  assert.is(describe(featureError("NetworkError", "Timeout", { extendedParams: { status: 504 } })), "network 504");
+  assert.is(describe(featureError("ValidationError", "Invalid")), "validation App/Feature: Invalid");
+  assert.is(describe(new Error("native")), "foreign");
+
+  const networkError = featureError("NetworkError", "Timeout", { extendedParams: { status: 504 } });
+  const validationError = featureError("ValidationError", "Invalid");
+
+  // @ts-expect-error - ValidationError handler is missing and there is no fallback
+  matchConwayError(isFromContext(networkError, appErrors) ? networkError : validationError, {
+    NetworkError: () => "network",
+  });
+
+  const withFallback = (err: unknown) =>
+    matchConwayError(err, {
+      NetworkError: (e) => `network ${e.name}`,
+      _: (e) => `fallback ${e instanceof Error ? e.message : String(e)}`,
+    });
+
+  assert.is(withFallback(networkError), "network NetworkError");
+  assert.is(withFallback(validationError), "fallback App/Feature: Invalid");
+  assert.is(withFallback("boom"), "fallback boom");
+
+  try {
+    matchConwayError(validationError as ReturnType<typeof featureError>, {
+      NetworkError: () => "network",
+    } as never);
+    assert.unreachable("unmatched error should be rethrown");
+  } catch (err) {
+    assert.is(err, validationError);
+  }
+});
+
+test("type guards check error type, context and feature", () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "ValidationError" }] as const);
+  const appErrors = createErrorContext("App");
+  const apiContext = appErrors.subcontext("API");
+  const paymentFeature = apiContext.feature("Payment");
+  const refundFeature = apiContext.feature("Refund");
+  const otherContext = createErrorContext("Other");
+
+  const paymentError = paymentFeature("NetworkError", "Timeout");
+
+  assert.ok(isErrorOfType(paymentError, "NetworkError"));
+  assert.not.ok(isErrorOfType(paymentError, "ValidationError"));
+  assert.not.ok(isErrorOfType(new Error("NetworkError"), "NetworkError"));
+
+  assert.ok(isFromContext(paymentError, appErrors));
+  assert.ok(isFromContext(paymentError, apiContext));
+  assert.not.ok(isFromContext(paymentError, otherContext));
+  assert.not.ok(isFromContext(createErrorContext("AppX").feature("F")("NetworkError", "m"), appErrors));
+  assert.not.ok(isFromContext("string", appErrors));
+
+  assert.ok(isFromFeature(paymentError, paymentFeature));
+  assert.not.ok(isFromFeature(paymentError, refundFeature));
+  assert.not.ok(isFromFeature(new Error("native"), paymentFeature));
+});
+
+test("error classes are shared between contexts and work with instanceof", () => {
+  const createErrorContext = createError(
+    [{ errorType: "ValidationError", params: paramsSchema<{ fields: string[] }>() }, { errorType: "NetworkError" }] as const
+  );
+  const { ValidationError, NetworkError, UnknownError } = createErrorContext.errorClasses;
+
+  const errorA = createErrorContext("A").feature("Feature")("ValidationError", "Invalid", {
+    extendedParams: { fields: ["email"] },
+  });
+  const errorB = createErrorContext("B").subcontext("Sub").feature("Feature")("ValidationError", "Invalid", {
+    extendedParams: { fields: ["name"] },
+  });
+  const networkError = createErrorContext("A").feature("Feature")("NetworkError", "Timeout");
+
+  assert.instance(errorA, ValidationError);
+  assert.instance(errorB, ValidationError);
+  assert.instance(networkError, NetworkError);
+  assert.not.instance(networkError, ValidationError);
+  assert.is(errorA.constructor, errorB.constructor);
+  assert.is(errorB.rootContext, "B");
+  assert.is(ValidationError.name, "ValidationError");
+  assert.ok(isConwayError(errorA));
+
+  const caught: unknown = errorB;
+  if (caught instanceof ValidationError) {
+    assert.equal(caught.extendedParams?.fields, ["name"]);
+  } else {
+    assert.unreachable("error should be ValidationError");
+  }
+
+  // @ts-expect-error - testing runtime behavior with invalid error type
+  const unknownError = createErrorContext("A").feature("Feature")("WrongType", "Message");
+  assert.instance(unknownError, UnknownError);
+
+  const otherFactory = createError([{ errorType: "ValidationError" }] as const);
+  const otherError = otherFactory("A").feature("Feature")("ValidationError", "Invalid");
+  assert.not.instance(otherError, ValidationError);
+  assert.instance(otherError, otherFactory.errorClasses.ValidationError);
+});
+
+test("deserialization rebuilds errors as instances of factory error classes", async () => {
+  const handleEmit = snoop((err, extendedParams) => {});
+  const createErrorContext = createError([{ errorType: "ValidationError" }, { errorType: "NetworkError" }] as const, {
+    handleEmit: handleEmit.fn,
+  });
+  const { ValidationError, NetworkError } = createErrorContext.errorClasses;
+  const json = JSON.stringify(createErrorContext("App").feature("Form")("ValidationError", "Invalid"));
+
+  const withClasses = deserializeConwayError(json, { errorClasses: createErrorContext.errorClasses });
+  assert.instance(withClasses, ValidationError);
+  assert.not.instance(withClasses, NetworkError);
+  assert.not.instance(deserializeConwayError(json), ValidationError);
+
+  const restored = createErrorContext.deserialize(json);
+  assert.instance(restored, ValidationError);
+  assert.is(restored.message, "App/Form: Invalid");
+
+  await restored.emit({ retried: true });
+  assert.is(handleEmit.callCount, 1);
+  assert.is(handleEmit.calls[0]?.arguments[0], restored);
+  assert.equal(handleEmit.calls[0]?.arguments[1], { retried: true });
+});
+
+test("emit pipeline runs middleware and routes to matching transports", () => {
+  const sentry = snoop((err, extendedParams) => {});
+  const metrics = snoop((errorType) => {});
+  const payments = snoop((message) => {});
+
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "ValidationError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [
+        (event) => ({ ...event, extendedParams: { ...event.extendedParams, release: "1.0.0" } }),
+        (event) => (event.extendedParams.ignore ? null : event),
+      ],
+      transports: [
+        { name: "sentry", handle: (err, extendedParams) => sentry.fn(err.message, extendedParams) },
+        { name: "metrics", errorTypes: ["NetworkError"], handle: (err) => metrics.fn(err.name) },
+        { name: "payments", contextPrefix: "App/Payment", handle: (err) => payments.fn(err.message) },
+      ],
+    }),
+  });
+
+  const appErrors = createErrorContext("App");
+  const paymentFeature = appErrors.subcontext("Payment").feature("Refund");
+  const paymentsLikeFeature = appErrors.feature("PaymentX");
+
+  paymentFeature("NetworkError", "Timeout").emit({ userId: 1 });
+  paymentsLikeFeature("ValidationError", "Invalid").emit();
+  paymentFeature("NetworkError", "Ignored").emit({ ignore: true });
+
+  assert.is(sentry.callCount, 2);
+  // @ts-ignore
+  assert.equal(sentry.calls[0].arguments, ["App/Payment/Refund: Timeout", { userId: 1, release: "1.0.0" }]);
+  // @ts-ignore
+  assert.equal(sentry.calls[1].arguments, ["App/PaymentX: Invalid", { release: "1.0.0" }]);
+
+  assert.is(metrics.callCount, 1);
+  // @ts-ignore
+  assert.equal(metrics.calls[0].arguments, ["NetworkError"]);
+
+  assert.is(payments.callCount, 1);
+  // @ts-ignore
+  assert.equal(payments.calls[0].arguments, ["App/Payment/Refund: Timeout"]);
+});
+
+test("emit pipeline isolates failing transports", async () => {
+  const reported = snoop((error, transportName) => {});
+  const healthy = snoop((message) => {});
+
+  const handleEmit = createEmitPipeline({
+    transports: [
+      {
+        name: "broken",
+        handle: () => {
+          throw new Error("transport down");
+        },
+      },
+      { name: "async-broken", handle: () => Promise.reject(new Error("async transport down")) },
+      { name: "healthy", handle: (err) => healthy.fn(err.message) },
+    ],
+    onTransportError: (error, transport) => reported.fn((error as Error).message, transport.name),
+  });
+
+  const featureError = createError([{ errorType: "ErrorType1" }] as const, { handleEmit })("Context").feature("Feature");
+  featureError("ErrorType1", "ErrorMessage").emit();
+
+  await Promise.resolve();
+
+  assert.is(healthy.callCount, 1);
+  assert.is(reported.callCount, 2);
+  // @ts-ignore
+  assert.equal(reported.calls[0].arguments, ["transport down", "broken"]);
+  // @ts-ignore
+  assert.equal(reported.calls[1].arguments, ["async transport down", "async-broken"]);
+});
+
+test("emit pipeline uses console transport by default", () => {
+  const originalConsoleError = console.error;
+  let capturedError: any = null;
+  console.error = (err: any) => {
+    capturedError = err;
+  };
+
+  const featureError = createError([{ errorType: "ErrorType1" }] as const, {
+    handleEmit: createEmitPipeline(),
+  })("Context").feature("Feature");
+
+  const error = featureError("ErrorType1", "ErrorMessage");
+  error.emit();
+
+  console.error = originalConsoleError;
+
+  assert.is(capturedError, error);
+  assert.is(consoleTransport.name, "console");
+});
+
+test("dedupe middleware collapses repeated errors within window", () => {
+  const mockedEmit = snoop((message, extendedParams) => {});
+  let time = 0;
+
+  const featureError = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [createDedupeMiddleware({ windowMs: 1000, now: () => time })],
+      transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.message, extendedParams) }],
+    }),
+  })("Context").feature("Feature");
+
+  for (let i = 0; i < 5; i++) {
+    featureError("NetworkError", "timeout").emit();
+  }
+  featureError("NetworkError", "other message").emit();
+
+  assert.is(mockedEmit.callCount, 2);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments, ["Context/Feature: timeout", {}]);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, ["Context/Feature: other message", {}]);
+
+  time = 1500;
+  featureError("NetworkError", "timeout").emit();
+  featureError("NetworkError", "timeout").emit();
+
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[2].arguments, ["Context/Feature: timeout", { suppressedCount: 4 }]);
+
+  time = 3000;
+  featureError("NetworkError", "timeout").emit();
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[3].arguments, ["Context/Feature: timeout", { suppressedCount: 1 }]);
+});
+
+test("rate limit middleware uses token bucket per key", () => {
+  const mockedEmit = snoop((message, extendedParams) => {});
+  let time = 0;
+
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "ValidationError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [createRateLimitMiddleware({ capacity: 2, refillPerSecond: 1, by: "errorType", now: () => time })],
+      transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.name, extendedParams) }],
+    }),
+  });
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  for (let i = 0; i < 5; i++) {
+    featureError("NetworkError", `timeout ${i}`).emit();
+  }
+  featureError("ValidationError", "invalid").emit();
+
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[2].arguments, ["ValidationError", {}]);
+
+  time = 1000;
+  featureError("NetworkError", "timeout").emit();
+  featureError("NetworkError", "timeout").emit();
+
+  assert.is(mockedEmit.callCount, 4);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[3].arguments, ["NetworkError", { suppressedCount: 3 }]);
+});
+
+test("dedupe middleware reports collapsed occurrences when window expires or on flush", async () => {
+  const mockedEmit = snoop((message, extendedParams) => {});
+  let time = 0;
+
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [createDedupeMiddleware({ windowMs: 1000, now: () => time })],
+      transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.message, extendedParams) }],
+    }),
+  });
+  const featureError = createErrorContext("Context").feature("Feature");
+
+  for (let i = 0; i < 3; i++) {
+    featureError("NetworkError", "timeout").emit();
+  }
+  assert.is(mockedEmit.callCount, 1);
+
+  time = 1500;
+  featureError("NetworkError", "other message").emit();
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, ["Context/Feature: timeout", { suppressedCount: 2 }]);
+
+  featureError("NetworkError", "other message").emit();
+  await createErrorContext.flush();
+  assert.is(mockedEmit.callCount, 4);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[3].arguments, ["Context/Feature: other message", { suppressedCount: 1 }]);
+
+  await createErrorContext.flush();
+  assert.is(mockedEmit.callCount, 4);
+});
+
+test("dedupe middleware reports collapsed occurrences by timer", async () => {
+  const mockedEmit = snoop((message, extendedParams) => {});
+  const featureError = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [createDedupeMiddleware({ windowMs: 5 })],
+      transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.message, extendedParams) }],
+    }),
+  })("Context").feature("Feature");
+
+  featureError("NetworkError", "timeout").emit();
+  featureError("NetworkError", "timeout").emit();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assert.is(mockedEmit.callCount, 2);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, ["Context/Feature: timeout", { suppressedCount: 1 }]);
+});
+
+test("failures of suppressed count reports go to onMiddlewareError", async () => {
+  const onMiddlewareError = snoop((error: unknown, event: EmitEvent) => {});
+  const featureError = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [
+        createDedupeMiddleware({ windowMs: 5 }),
+        (event) => {
+          if (event.extendedParams.suppressedCount) {
+            throw new Error("Middleware failed");
+          }
+          return event;
+        },
+      ],
+      transports: [],
+      onMiddlewareError: onMiddlewareError.fn,
+    }),
+  })("Context").feature("Feature");
+
+  featureError("NetworkError", "timeout").emit();
+  featureError("NetworkError", "timeout").emit();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assert.is(onMiddlewareError.callCount, 1);
+  assert.is((onMiddlewareError.calls[0]?.arguments[0] as Error).message, "Middleware failed");
+  assert.equal(onMiddlewareError.calls[0]?.arguments[1].extendedParams, { suppressedCount: 1 });
+});
+
+test("rate limit middleware reports dropped emits after refill and on flush", async () => {
+  const mockedEmit = snoop((message, extendedParams) => {});
+  let time = 0;
+
+  const handleEmit = createEmitPipeline({
+    middleware: [createRateLimitMiddleware({ capacity: 1, refillPerSecond: 1, now: () => time })],
+    transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.message, extendedParams) }],
+  });
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, { handleEmit });
+
+  createErrorContext("Payment").feature("Refund")("NetworkError", "first").emit();
+  createErrorContext("Payment").feature("Refund")("NetworkError", "second").emit();
+  assert.is(mockedEmit.callCount, 1);
+
+  time = 2000;
+  createErrorContext("Auth").feature("Login")("NetworkError", "login").emit();
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, ["Payment/Refund: second", { suppressedCount: 1 }]);
+
+  createErrorContext("Auth").feature("Login")("NetworkError", "login again").emit();
+  await handleEmit.flush();
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[3].arguments, ["Auth/Login: login again", { suppressedCount: 1 }]);
+});
+
+test("sampling middleware passes share of errors by type", () => {
+  const mockedEmit = snoop((errorType, extendedParams) => {});
+  const randomValues = [0.05, 0.5, 0.09, 0.99];
+
+  const featureError = createError([{ errorType: "NetworkError" }, { errorType: "ValidationError" }] as const, {
+    handleEmit: createEmitPipeline({
+      middleware: [createSamplingMiddleware({ rates: { NetworkError: 0.1 }, random: () => randomValues.shift() ?? 1 })],
+      transports: [{ name: "spy", handle: (err, extendedParams) => mockedEmit.fn(err.name, extendedParams) }],
+    }),
+  })("Context").feature("Feature");
+
+  for (let i = 0; i < 4; i++) {
+    featureError("NetworkError", "timeout").emit();
+  }
+  featureError("ValidationError", "invalid").emit();
+
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments, ["NetworkError", { sampleRate: 0.1 }]);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments, ["NetworkError", { sampleRate: 0.1 }]);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[2].arguments, ["ValidationError", {}]);
+});
+
+test("ambient error context merges into created and emitted errors", async () => {
+  const mockedEmit = snoop((err, extendedParams) => {});
+
+  const createErrorContext = createError([{ errorType: "ErrorType1" }] as const, {
+    handleEmit: (err, extendedParams) => {
+      mockedEmit.fn(err, extendedParams);
+    },
+    extendedParams: { level1: "createError", shared: "createError" },
+  });
+
+  const context = createErrorContext("Context", { level2: "context", shared: "context" });
+  const featureError = context.feature("Feature", { level3: "feature", shared: "feature" });
+
+  assert.is(getErrorContext(), undefined);
+
+  const error = await runWithErrorContext({ requestId: "req-1", shared: "ambient" }, async () => {
+    await Promise.resolve();
+
+    return runWithErrorContext({ userId: "user-1" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      assert.equal(getErrorContext(), { requestId: "req-1", shared: "ambient", userId: "user-1" });
+
+      return featureError("ErrorType1", "ErrorMessage", { extendedParams: { level4: "errorOptions" } });
+    });
+  });
+
+  assert.equal(error.extendedParams, {
+    requestId: "req-1",
+    userId: "user-1",
+    shared: "ambient",
+    level4: "errorOptions",
+  });
+
+  error.emit({ level5: "emit" });
+
+  // Order: createError < context < subcontext < feature < ambient on emit < ambient on creation < errorOptions < emit
+  assert.equal(
+    // @ts-ignore
+    mockedEmit.calls[0].arguments[1],
+    {
+      level1: "createError",
+      level2: "context",
+      level3: "feature",
+      requestId: "req-1",
+      userId: "user-1",
+      level4: "errorOptions",
+      level5: "emit",
+      shared: "ambient",
+    }
+  );
+
+  const outsideError = featureError("ErrorType1", "ErrorMessage");
+  assert.is(outsideError.extendedParams, undefined);
+
+  runWithErrorContext({ requestId: "req-2", shared: "emitAmbient" }, () => {
+    outsideError.emit({ shared: "emit" });
+  });
+
+  assert.equal(
+    // @ts-ignore
+    mockedEmit.calls[1].arguments[1],
+    {
+      level1: "createError",
+      level2: "context",
+      level3: "feature",
+      requestId: "req-2",
+      shared: "emit",
+    }
+  );
+
+  assert.is(getErrorContext(), undefined);
+});
+
+test("error registry records declarations and exports catalog", () => {
+  const registry = createErrorRegistry();
+
+  const createErrorContext = createError([{ errorType: "ValidationError" }, { errorType: "ProcessingError" }] as const, {
+    registry,
+    extendedParams: { app: "shop" },
+  });
+
+  const paymentErrors = createErrorContext("Payment", { team: "payments" });
+  const refunds = paymentErrors.subcontext("Refund", { service: "stripe" });
+  refunds.feature("RefundError");
+  refunds.feature("RefundError");
+  paymentErrors.feature("CardError");
+  createErrorContext("Empty");
+
+  assert.equal(
+    registry.entries().map((entry) => `${entry.kind}:${entry.path}`),
+    ["context:Payment", "subcontext:Payment/Refund", "feature:Payment/Refund/RefundError", "feature:Payment/CardError", "context:Empty"]
+  );
+
+  assert.equal(JSON.parse(JSON.stringify(registry)), {
+    contexts: [
+      {
+        name: "Payment",
+        path: "Payment",
+        extendedParams: { app: "shop", team: "payments" },
+        errorTypes: ["ValidationError", "ProcessingError"],
+        subcontexts: [
+          {
+            name: "Refund",
+            path: "Payment/Refund",
+            extendedParams: { app: "shop", team: "payments", service: "stripe" },
+            errorTypes: ["ValidationError", "ProcessingError"],
+            subcontexts: [],
+            features: [
+              {
+                name: "RefundError",
+                path: "Payment/Refund/RefundError",
+                extendedParams: { app: "shop", team: "payments", service: "stripe" },
+                errorTypes: ["ValidationError", "ProcessingError"],
+              },
+            ],
+          },
+        ],
+        features: [
+          {
+            name: "CardError",
+            path: "Payment/CardError",
+            extendedParams: { app: "shop", team: "payments" },
+            errorTypes: ["ValidationError", "ProcessingError"],
+          },
+        ],
+      },
+      {
+        name: "Empty",
+        path: "Empty",
+        extendedParams: { app: "shop" },
+        errorTypes: ["ValidationError", "ProcessingError"],
+        subcontexts: [],
+        features: [],
+      },
+    ],
+  });
+
+  assert.is(
+    registry.toMarkdown(),
+    [
+      "# Error Catalog",
+      "",
+      "## Payment",
+      "",
+      "| Error | Error type | Extended params |",
+      "| --- | --- | --- |",
+      '| `Payment/Refund/RefundError` | `ValidationError` | `{"app":"shop","team":"payments","service":"stripe"}` |',
+      '| `Payment/Refund/RefundError` | `ProcessingError` | `{"app":"shop","team":"payments","service":"stripe"}` |',
+      '| `Payment/CardError` | `ValidationError` | `{"app":"shop","team":"payments"}` |',
+      '| `Payment/CardError` | `ProcessingError` | `{"app":"shop","team":"payments"}` |',
+      "",
+      "## Empty",
+      "",
+      "_No features_",
+      "",
+    ].join("\n")
+  );
+});
+
+test("message templates keep template and values on the error", () => {
+  const alreadyProcessed = messageTemplate("payment.alreadyProcessed", "Payment {paymentId} already processed by {user}");
+
+  const featureError = createError([{ errorType: "ProcessingError" }] as const)("Payment").feature("Refund");
+  const error = featureError("ProcessingError", alreadyProcessed({ paymentId: "p-1", user: 42 }));
+
+  assert.is(error.message, "Payment/Refund: Payment p-1 already processed by 42");
+  assert.equal(error.messageTemplate, {
+    id: "payment.alreadyProcessed",
+    template: "Payment {paymentId} already processed by {user}",
+    values: { paymentId: "p-1", user: 42 },
+  });
+
+  assert.is(featureError("ProcessingError", "plain").messageTemplate, undefined);
+
+  // @ts-expect-error - user placeholder value is missing
+  alreadyProcessed({ paymentId: "p-1" });
+
+  const restored = deserializeConwayError(JSON.stringify(error));
+  assert.equal(restored.messageTemplate, error.messageTemplate);
+});
+
+test("error types declare message templates and features pass only values", () => {
+  const createErrorContext = createError([
+    { errorType: "PaymentDuplicate", message: messageTemplate("payment.duplicate", "Payment {paymentId} is duplicate") },
+    { errorType: "NetworkError" },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Checkout");
+
+  const error = featureError("PaymentDuplicate", { paymentId: "p-1" });
+  assert.is(error.message, "Payment/Checkout: Payment p-1 is duplicate");
+  assert.is(error.rawMessage, "Payment p-1 is duplicate");
+  assert.equal(error.messageTemplate, {
+    id: "payment.duplicate",
+    template: "Payment {paymentId} is duplicate",
+    values: { paymentId: "p-1" },
+  });
+  assert.is(featureError("PaymentDuplicate", "Custom message").message, "Payment/Checkout: Custom message");
+
+  // @ts-expect-error - paymentId placeholder value is missing
+  featureError("PaymentDuplicate", { id: "p-1" });
+  // @ts-expect-error - error type has no message template
+  assert.throws(() => featureError("NetworkError", { paymentId: "p-1" }), /NetworkError has no message template/);
+});
+
+test("message catalog renders localized messages", () => {
+  const alreadyProcessed = messageTemplate("payment.alreadyProcessed", "Payment {paymentId} already processed");
+  const catalog = createMessageCatalog({
+    ru: { "payment.alreadyProcessed": "Платеж {paymentId} уже обработан" },
+  });
+  catalog.register("de-AT", { "payment.alreadyProcessed": "Zahlung {paymentId} wurde bereits verarbeitet" });
+
+  const featureError = createError([{ errorType: "ProcessingError" }] as const)("Payment").feature("Refund");
+  const error = featureError("ProcessingError", alreadyProcessed({ paymentId: "p-1" }));
+
+  assert.is(catalog.render(error, "ru"), "Платеж p-1 уже обработан");
+  assert.is(catalog.render(error, "ru-RU"), "Платеж p-1 уже обработан");
+  assert.is(catalog.render(error, "de-AT"), "Zahlung p-1 wurde bereits verarbeitet");
+  assert.is(catalog.render(error, "fr"), "Payment p-1 already processed");
+  assert.is(catalog.render(featureError("ProcessingError", "plain"), "ru"), "Payment/Refund: plain");
+});
+
+test("errors carry stable codes and fingerprints", () => {
+  const createAppError = createError([
+    { errorType: "NetworkError", code: 1001 },
+    { errorType: "ValidationError" },
+  ] as const);
+  const paymentError = createAppError("Payment").subcontext("Refund").feature("Process");
+
+  const first = paymentError("NetworkError", "Request 1 failed");
+  const second = paymentError("NetworkError", "Request 2 failed");
+  const validationError = paymentError("ValidationError", "Invalid amount");
+
+  assert.is(first.code, 1001);
+  assert.is(first.fingerprint, second.fingerprint);
+  assert.match(validationError.code as string, /^ValidationError-[0-9A-F]{8}$/);
+  assert.is.not(validationError.fingerprint, first.fingerprint);
+
+  const recreated = createAppError("Payment").subcontext("Refund").feature("Process")("ValidationError", "other");
+  assert.is(recreated.code, validationError.code);
+  assert.is(recreated.fingerprint, validationError.fingerprint);
+  assert.is.not(createAppError("Payment").feature("Process")("ValidationError", "x").code, validationError.code);
+
+  const restored = deserializeConwayError(JSON.stringify(first));
+  assert.is(restored.code, 1001);
+  assert.is(restored.fingerprint, first.fingerprint);
+});
+
+test("fingerprint can include message template id", () => {
+  const declined = messageTemplate("payment.declined", "Payment {id} declined");
+  const expired = messageTemplate("payment.expired", "Payment {id} expired");
+  const errorTypes = [{ errorType: "PaymentError" }] as const;
+
+  const featureError = createError(errorTypes)("Payment").feature("Charge");
+  assert.is(
+    featureError("PaymentError", declined({ id: 1 })).fingerprint,
+    featureError("PaymentError", expired({ id: 1 })).fingerprint
+  );
+
+  const templatedError = createError(errorTypes, { fingerprintMessageTemplate: true })("Payment").feature("Charge");
+  assert.is(
+    templatedError("PaymentError", declined({ id: 1 })).fingerprint,
+    templatedError("PaymentError", declined({ id: 2 })).fingerprint
+  );
+  assert.is.not(
+    templatedError("PaymentError", declined({ id: 1 })).fingerprint,
+    templatedError("PaymentError", expired({ id: 1 })).fingerprint
+  );
+});
+
+test("colliding error codes are rejected on factory creation", () => {
+  assert.throws(
+    () =>
+      createError([
+        { errorType: "NetworkError", code: "E_IO" },
+        { errorType: "StorageError", code: "E_IO" },
+      ] as const),
+    /Error code E_IO of StorageError collides with NetworkError/
+  );
+});
+
+test("aggregate error collects child errors under one context path", () => {
+  const createErrorContext = createError([{ errorType: "ValidationError" }, { errorType: "FormError" }] as const);
+  const formError = createErrorContext("Checkout").feature("Form");
+
+  const emailError = formError("ValidationError", "Invalid email");
+  const phoneError = formError("ValidationError", "Invalid phone");
+  const error = formError.aggregate("FormError", [emailError, phoneError, new Error("Unknown field")], "Form invalid");
+
+  assert.ok(isConwayAggregateError(error));
+  assert.ok(error instanceof createErrorContext.errorClasses.FormError);
+  assert.is(error.errors.length, 3);
+  assert.is(error.errors[0], emailError);
+  assert.is(
+    error.message,
+    "Checkout/Form: Form invalid (3 errors: Checkout/Form: Invalid email; Checkout/Form: Invalid phone; Unknown field)"
+  );
+  assert.is(formError.aggregate("FormError", ["oops"]).message, "Checkout/Form: 1 error: oops");
+  assert.not.ok(isConwayAggregateError(emailError));
+
+  const restored = deserializeConwayError(JSON.stringify(error));
+  assert.ok(isConwayAggregateError(restored));
+  assert.ok(isConwayError(restored.errors[0]));
+  assert.is((restored.errors[2] as Error).message, "Unknown field");
+});
+
+test("aggregate error emits itself or fans out to children", () => {
+  const mockedEmit = snoop((err, extendedParams) => {});
+  const createErrorContext = createError([{ errorType: "ValidationError" }, { errorType: "BatchError" }] as const, {
+    handleEmit: mockedEmit.fn,
+  });
+  const batchError = createErrorContext("Import").feature("Batch");
+  const children = [batchError("ValidationError", "Row 1 invalid"), new Error("Row 2 failed")];
+
+  const aggregateError = batchError.aggregate("BatchError", children);
+  aggregateError.emit();
+  assert.is(mockedEmit.callCount, 1);
+  // @ts-ignore
+  assert.is(mockedEmit.calls[0].arguments[0], aggregateError);
+
+  const fanOutError = batchError.aggregate("BatchError", children, "Import failed", {
+    emit: "children",
+    extendedParams: { batchId: 7 },
+  });
+  fanOutError.emit({ attempt: 2 });
+  assert.is(mockedEmit.callCount, 3);
+  // @ts-ignore
+  assert.is(mockedEmit.calls[1].arguments[0], children[0]);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[1].arguments[1], { batchId: 7, attempt: 2 });
+  // @ts-ignore
+  const wrapped = mockedEmit.calls[2].arguments[0];
+  assert.ok(isConwayError(wrapped));
+  assert.is(wrapped.name, "BatchError");
+  assert.is(wrapped.originalError, children[1]);
+});
+
+test("redaction rules apply to messages, extended params and original errors", () => {
+  const mockedEmit = snoop((err, extendedParams) => {});
+  const createErrorContext = createError([{ errorType: "PaymentError" }] as const, {
+    handleEmit: mockedEmit.fn,
+    redaction: { keys: [/token/i, "userPassword"], values: [/\d{4}-\d{4}-\d{4}-\d{4}/] },
+  });
+
+  const paymentContext = createErrorContext("Payment", {}, { redaction: { paths: ["user.email"] } });
+  const paymentError = paymentContext.feature(
+    "Charge",
+    { sessionToken: "s-1" },
+    { redaction: { redactors: [(value, path) => (path === "amount" ? Math.round(value as number) : value)] } }
+  );
+
+  const originalError = Object.assign(new Error("Card 1111-2222-3333-4444 declined"), { token: "t-1" });
+  const error = paymentError("PaymentError", "Charge of 1111-2222-3333-4444 failed", {
+    originalError,
+    extendedParams: { user: { email: "a@b.c", name: "Ann" }, token: "t-2", amount: 10.4, userPassword: "secret" },
+  });
+
+  assert.is(error.message, `Payment/Charge: Charge of ${REDACTED_MARKER} failed`);
+  assert.equal(error.extendedParams, {
+    user: { email: REDACTED_MARKER, name: "Ann" },
+    token: REDACTED_MARKER,
+    amount: 10,
+    userPassword: REDACTED_MARKER,
+  });
+  assert.ok(error.originalError instanceof Error);
+  assert.is((error.originalError as Error).message, `Card ${REDACTED_MARKER} declined`);
+  assert.is((error.originalError as Error & { token: string }).token, REDACTED_MARKER);
+  assert.not.match(JSON.stringify(error), /1111|a@b\.c|t-1|t-2|secret/);
+
+  error.emit({ token: "t-3" });
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments[1].token, REDACTED_MARKER);
+  // @ts-ignore
+  assert.equal(mockedEmit.calls[0].arguments[1].sessionToken, REDACTED_MARKER);
+
+  const originals = revealRedacted(error);
+  assert.is(originals?.message, "Payment/Charge: Charge of 1111-2222-3333-4444 failed");
+  assert.is(originals?.originalError, originalError);
+  assert.equal(originals?.extendedParams?.token, "t-2");
+  assert.is(revealRedacted(createError()("Context").feature("Feature")("UnknownError", "plain")), undefined);
+});
+
+test("redaction rules apply to stack of wrapped Conway errors", () => {
+  const createErrorContext = createError([{ errorType: "A" }] as const, { redaction: { values: [/secret\d+/] } });
+  const innerError = createError([{ errorType: "B" }] as const)("X").feature("Y")("B", "leak secret42");
+  const error = createErrorContext("C").feature("F")("A", "wrap", { originalError: innerError });
+
+  assert.is((error.originalError as Error).message, `X/Y: leak ${REDACTED_MARKER}`);
+  assert.match(error.stack ?? "", `Caused by: B: X/Y: leak ${REDACTED_MARKER}`);
+  assert.not.match(error.stack ?? "", /secret42/);
+  assert.not.match(JSON.stringify(error), /secret42/);
+  assert.match(innerError.stack ?? "", /secret42/);
+});
+
+test("redaction rules apply to message template values", () => {
+  const userNotFound = messageTemplate("user.notFound", "User {email} not found");
+  const featureError = createError([{ errorType: "AuthError" }] as const, {
+    redaction: { keys: ["email"], marker: "***" },
+  })("Auth").feature("Login");
+
+  const error = featureError("AuthError", userNotFound({ email: "a@b.c" }));
+
+  assert.is(error.message, "Auth/Login: User *** not found");
+  assert.equal(error.messageTemplate?.values, { email: "***" });
+  assert.equal(revealRedacted(error)?.messageTemplate?.values, { email: "a@b.c" });
+});
+
+test("stack trace starts at caller code and exposes parsed frames", () => {
+  const featureError = createError([{ errorType: "ErrorType1" }] as const)("Context").feature("Feature");
+  const error = featureError("ErrorType1", "ErrorMessage");
+
+  assert.is(error.stack?.split("\n")[0], "ErrorType1: Context/Feature: ErrorMessage");
+  assert.not.match(error.stack ?? "", /createNewErrorObject/);
+  assert.match(error.frames[0]?.file ?? "", /index\.test\.ts$/);
+  assert.type(error.frames[0]?.line, "number");
+
+  const wrapped = featureError.fromThrowable(() => JSON.parse("{"), "ErrorType1");
+  assert.ok(!wrapped.ok && !wrapped.error.frames.some((frame) => frame.functionName === "wrapThrown"));
+
+  const libraryError = createError([{ errorType: "ErrorType1" }] as const, { keepLibraryFrames: true })("Context")
+    .feature("Feature")("ErrorType1", "ErrorMessage");
+  assert.is(libraryError.frames[0]?.functionName, "createNewErrorObject");
+});
+
+test("stack frame filter hides frames", () => {
+  const featureError = createError([{ errorType: "ErrorType1" }] as const, {
+    stackFrameFilter: (frame) => !frame.file?.includes("node_modules") && !frame.file?.startsWith("node:"),
+  })("Context").feature("Feature");
+
+  const error = featureError("ErrorType1", "ErrorMessage", { originalError: new Error("Cause") });
+
+  assert.ok(error.frames.length > 0);
+  assert.ok(error.frames.every((frame) => !frame.file?.includes("node_modules") && !frame.file?.startsWith("node:")));
+  assert.match(error.stack ?? "", /\nCaused by: Error: Cause/);
+});
+
+test("stack trace is formatted once on first read", () => {
+  const prepareStackTrace = Error.prepareStackTrace;
+  const format = snoop((error: Error, frames: NodeJS.CallSite[]) =>
+    [`${error.name}: ${error.message}`, ...frames.map((frame) => `    at ${frame}`)].join("\n")
+  );
+  Error.prepareStackTrace = format.fn;
+
+  try {
+    const featureError = createError([{ errorType: "ErrorType1" }] as const)("Context").feature("Feature");
+    const error = featureError("ErrorType1", "ErrorMessage", { originalError: "Cause" });
+    assert.is(format.callCount, 0);
+
+    assert.is(error.stack?.split("\n")[0], "ErrorType1: Context/Feature: ErrorMessage");
+    assert.match(error.stack ?? "", /\nCaused by: Cause$/);
+    assert.is(format.callCount, 1);
+
+    error.stack = "Custom stack";
+    assert.is(error.stack, "Custom stack");
+  } finally {
+    Error.prepareStackTrace = prepareStackTrace;
+  }
+});
+
+test("error types and errors can be marked retryable", () => {
+  const createErrorContext = createError([
+    { errorType: "NetworkError", retryable: true, retryAfterMs: 500 },
+    { errorType: "ValidationError" },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Charge");
+
+  const networkError = featureError("NetworkError", "Timeout");
+  assert.is(networkError.retryable, true);
+  assert.is(networkError.retryAfterMs, 500);
+  assert.ok(isRetryableError(networkError));
+
+  assert.not.ok(isRetryableError(featureError("ValidationError", "Invalid amount")));
+  assert.ok(isRetryableError(featureError("ValidationError", "Locked", { retryable: true })));
+  assert.not.ok(isRetryableError(featureError("NetworkError", "Gone", { retryable: false })));
+  assert.not.ok(isRetryableError(new Error("Timeout")));
+
+  const restored = deserializeConwayError(JSON.stringify(networkError));
+  assert.is(restored.retryable, true);
+  assert.is(restored.retryAfterMs, 500);
+});
+
+test("withRetry retries retryable errors with backoff", async () => {
+  const createErrorContext = createError([
+    { errorType: "NetworkError", retryable: true },
+    { errorType: "RetryError" },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Charge");
+  const delays: number[] = [];
+
+  const result = await withRetry(
+    featureError,
+    (attempt) => {
+      if (attempt < 3) {
+        throw featureError("NetworkError", `Attempt ${attempt} failed`);
+      }
+      return "charged";
+    },
+    {
+      errorType: "RetryError",
+      initialDelayMs: 1,
+      jitter: 0.5,
+      random: () => 1,
+      onRetry: (_error, _attempt, delayMs) => delays.push(delayMs),
+    }
+  );
+
+  assert.is(result, "charged");
+  assert.equal(delays, [1, 1]);
+
+  const validationError = new TypeError("Not retryable");
+  let calls = 0;
+  try {
+    await withRetry(
+      featureError,
+      () => {
+        calls++;
+        throw validationError;
+      },
+      { errorType: "RetryError" }
+    );
+    assert.unreachable();
+  } catch (error) {
+    assert.is(error, validationError);
+    assert.is(calls, 1);
+  }
+});
+
+test("withRetry records every attempt when attempts run out", async () => {
+  const createErrorContext = createError([
+    { errorType: "NetworkError", retryable: true },
+    { errorType: "RetryError" },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Charge");
+
+  try {
+    await withRetry(featureError, (attempt) => Promise.reject(featureError("NetworkError", `Attempt ${attempt}`)), {
+      errorType: "RetryError",
+      maxAttempts: 3,
+      initialDelayMs: 0,
+    });
+    assert.unreachable();
+  } catch (error) {
+    assert.ok(isConwayAggregateError(error));
+    assert.is(error.name, "RetryError");
+    assert.is(error.errors.length, 3);
+    assert.is(error.originalError, error.errors[2]);
+    assert.match(error.message, /Failed after 3 attempts \(3 errors: /);
+  }
+});
+
+test("withRetry requires typed extended params of final error type", async () => {
+  const createErrorContext = createError([
+    { errorType: "NetworkError", retryable: true },
+    { errorType: "RetryError", params: paramsSchema<{ gateway: string }>() },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Charge");
+  const failAttempt = () => Promise.reject(featureError("NetworkError", "Timeout"));
+
+  try {
+    await withRetry(featureError, failAttempt, {
+      errorType: "RetryError",
+      maxAttempts: 1,
+      extendedParams: { gateway: "stripe" },
+    });
+    assert.unreachable();
+  } catch (error) {
+    assert.ok(isConwayError(error));
+    assert.equal(error.extendedParams, { gateway: "stripe" });
+  }
+
+  // @ts-expect-error - extended params of RetryError are required
+  await withRetry(featureError, failAttempt, { errorType: "RetryError", maxAttempts: 1 }).catch(() => {});
+  await withRetry(featureError, failAttempt, {
+    errorType: "RetryError",
+    maxAttempts: 1,
+    // @ts-expect-error - gateway must be a string
+    extendedParams: { gateway: 1 },
+  }).catch(() => {});
+});
+
+test("withRetry stops on abort signal", async () => {
+  const createErrorContext = createError([
+    { errorType: "NetworkError", retryable: true },
+    { errorType: "RetryError" },
+  ] as const);
+  const featureError = createErrorContext("Payment").feature("Charge");
+  const controller = new AbortController();
+  const reason = new Error("Cancelled");
+
+  try {
+    await withRetry(
+      featureError,
+      () => {
+        throw featureError("NetworkError", "Timeout");
+      },
+      {
+        errorType: "RetryError",
+        initialDelayMs: 10_000,
+        signal: controller.signal,
+        onRetry: () => controller.abort(reason),
+      }
+    );
+    assert.unreachable();
+  } catch (error) {
+    assert.is(error, reason);
+  }
+});
+
+test("assertion helpers throw feature errors and narrow types", () => {
+  const createErrorContext = createError([{ errorType: "ValidationError" }, { errorType: "StateError" }] as const);
+  const appErrors = createErrorContext("App");
+  const userError: AnyFeatureOfSubcontext<typeof appErrors> = appErrors.feature("User");
+
+  const findUser = (id: number): { name: string } | undefined => (id === 1 ? { name: "Ann" } : undefined);
+
+  const user = findUser(1);
+  userError.assertDefined(user, "ValidationError", "User not found");
+  assert.is(user.name, "Ann");
+
+  const name: string | number = user.name;
+  userError.assert(typeof name === "string", "ValidationError", "Name is not a string");
+  assert.is(name.toUpperCase(), "ANN");
+
+  try {
+    userError.assertDefined(findUser(2), "ValidationError", "User not found", { extendedParams: { id: 2 } });
+    assert.unreachable();
+  } catch (error) {
+    assert.ok(error instanceof createErrorContext.errorClasses.ValidationError);
+    assert.is((error as Error).message, "App/User: User not found");
+    assert.equal(isConwayError(error) && error.extendedParams, { id: 2 });
+    assert.ok(isFromFeature(error, userError));
+  }
+
+  assert.throws(() => userError.assert(0, "StateError", "Zero"), (error: Error) => error.message === "App/User: Zero");
+});
+
+test("unreachable throws error for unexpected value", () => {
+  const appErrors = createError([{ errorType: "StateError" }] as const)("App");
+  const stateError: AnyFeatureOfSubcontext<typeof appErrors> = appErrors.feature("State");
+
+  const describe = (state: "idle" | "busy") => {
+    switch (state) {
+      case "idle":
+        return "Idle";
+      case "busy":
+        return "Busy";
+      default:
+        return stateError.unreachable(state);
+    }
+  };
+
+  assert.is(describe("idle"), "Idle");
+  assert.throws(
+    () => describe("done" as "idle"),
+    (error: Error) => error.name === "UnknownError" && error.message === "App/State: Unexpected value: done"
+  );
+  assert.throws(
+    () => stateError.unreachable("done" as never, "StateError", "Unknown state"),
+    (error: Error) => error.name === "StateError" && error.message === "App/State: Unknown state"
+  );
+});
+
+test("feature.from normalizes thrown values", () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "LogicError" }] as const);
+  const featureError = createErrorContext("App").feature("Loader");
+
+  const fromString = featureError.from("Boom", "LogicError");
+  assert.is(fromString.name, "LogicError");
+  assert.is(fromString.message, "App/Loader: Boom");
+  assert.is(fromString.originalError, "Boom");
+
+  const domException = { name: "AbortError", message: "The operation was aborted" };
+  assert.is(featureError.from(domException, "NetworkError").message, "App/Loader: The operation was aborted");
+
+  const response = { status: 503, statusText: "Service Unavailable", url: "https://api.test/users" };
+  const fromResponse = featureError.from(response, "NetworkError");
+  assert.is(fromResponse.message, "App/Loader: HTTP 503 Service Unavailable");
+  assert.equal(fromResponse.extendedParams, { status: 503, url: "https://api.test/users" });
+
+  const fromObject = featureError.from({ code: 42 });
+  assert.is(fromObject.name, "UnknownError");
+  assert.is(fromObject.message, 'App/Loader: {"code":42}');
+});
+
+test("feature.from passes through or re-parents Conway errors", () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "LogicError" }] as const);
+  const loaderError = createErrorContext("App").feature("Loader");
+  const pageError = createErrorContext("App").feature("Page");
+
+  const original = loaderError("NetworkError", "Timeout");
+  assert.is(pageError.from(original, "LogicError"), original);
+
+  const reparented = pageError.from(original, "LogicError", { reparent: true });
+  assert.is(reparented.name, "NetworkError");
+  assert.is(reparented.feature, "Page");
+  assert.is(reparented.message, "App/Page: Timeout");
+  assert.is(reparented.originalError, original);
+});
+
+test("feature.from uses registered extractors", () => {
+  const createErrorContext = createError([{ errorType: "GraphQLError" }, { errorType: "HttpError" }] as const, {
+    extractors: [
+      (thrown) =>
+        Array.isArray(thrown) && thrown.every((item) => typeof item?.message === "string")
+          ? { message: thrown.map((item) => item.message).join("; "), errorType: "GraphQLError" }
+          : undefined,
+    ],
+  });
+  createErrorContext.registerExtractor((thrown) =>
+    typeof thrown === "object" && thrown !== null && "isAxiosError" in thrown
+      ? { message: "Request failed", errorType: "HttpError", extendedParams: { axios: true } }
+      : undefined
+  );
+  const featureError = createErrorContext("App").feature("Api");
+
+  const graphQLError = featureError.from([{ message: "Not found" }, { message: "Forbidden" }]);
+  assert.is(graphQLError.name, "GraphQLError");
+  assert.is(graphQLError.message, "App/Api: Not found; Forbidden");
+
+  const axiosError = featureError.from({ isAxiosError: true, message: "Network Error" }, "GraphQLError", {
+    extendedParams: { retry: 1 },
+  });
+  assert.is(axiosError.name, "HttpError");
+  assert.equal(axiosError.extendedParams, { axios: true, retry: 1 });
+});
+
+test("errors are converted into problem details", () => {
+  const createErrorContext = createError([
+    { errorType: "NotFoundError", httpStatus: 404, exposure: "public" },
+    { errorType: "DatabaseError", httpStatus: 503 },
+    { errorType: "MethodError", httpStatus: 405, exposure: "public" },
+    { errorType: "ClientClosedError", httpStatus: 499 },
+    { errorType: "UpstreamError", httpStatus: 599 },
+  ] as const);
+  const userError = createErrorContext("Api").feature("User");
+
+  const notFound = userError("NotFoundError", "User 42 not found", { extendedParams: { userId: 42, status: 0 } });
+  assert.is(notFound.httpStatus, 404);
+  assert.is(notFound.exposure, "public");
+  assert.equal(
+    toProblemDetails(notFound, { typeBaseUri: "https://errors.test/", instance: "/users/42", extensions: ["userId"] }),
+    {
+      type: `https://errors.test/${encodeURIComponent(String(notFound.code))}`,
+      title: "NotFoundError",
+      status: 404,
+      instance: "/users/42",
+      detail: "User 42 not found",
+      code: notFound.code,
+      userId: 42,
+    }
+  );
+  assert.equal(toProblemDetails(notFound), {
+    type: "about:blank",
+    title: "Not Found",
+    status: 404,
+    detail: "User 42 not found",
+    code: notFound.code,
+  });
+
+  const ambientError = runWithErrorContext({ tenant: "acme", internalQuery: "SELECT 1" }, () =>
+    userError("NotFoundError", "User 42 not found", { extendedParams: { userId: 42 } })
+  );
+  assert.equal(Object.keys(toProblemDetails(ambientError)), ["type", "title", "status", "detail", "code"]);
+
+  const databaseError = userError("DatabaseError", "Connection to db-1 refused", { extendedParams: { host: "db-1" } });
+  assert.equal(toProblemDetails(databaseError), { type: "about:blank", title: "Service Unavailable", status: 503 });
+  assert.equal(toProblemDetails(new Error("secret")), { type: "about:blank", title: "Internal Server Error", status: 500 });
+  assert.is(toProblemDetails(userError("MethodError", "Use POST")).title, "Method Not Allowed");
+  assert.is(toProblemDetails(userError("ClientClosedError", "Closed")).title, "Client Error");
+  assert.is(toProblemDetails(userError("UpstreamError", "Unknown")).title, "Server Error");
+
+  const restored = deserializeConwayError(JSON.stringify(notFound));
+  assert.is(restored.httpStatus, 404);
+  assert.is(restored.exposure, "public");
+});
+
+test("problem details handler writes problem+json response", () => {
+  const createErrorContext = createError([{ errorType: "NotFoundError", httpStatus: 404, exposure: "public" }] as const);
+  const userError = createErrorContext("Api").feature("User");
+  const createResponse = (headersSent = false) => {
+    const headers: Record<string, string> = {};
+    const res = {
+      statusCode: 200,
+      headersSent,
+      body: "",
+      headers,
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      },
+      end: (body: string) => {
+        res.body = body;
+      },
+    };
+    return res;
+  };
+
+  const errors: unknown[] = [];
+  const handler = createProblemDetailsHandler({ onError: (error) => errors.push(error) });
+  const error = userError("NotFoundError", "User not found");
+
+  const res = createResponse();
+  handler(error, { url: "/users/42" }, res);
+  assert.is(res.statusCode, 404);
+  assert.is(res.headers["Content-Type"], "application/problem+json");
+  assert.equal(JSON.parse(res.body), {
+    type: "about:blank",
+    title: "Not Found",
+    status: 404,
+    instance: "/users/42",
+    detail: "User not found",
+    code: error.code,
+  });
+  assert.equal(errors, [error]);
+
+  const next = snoop((err) => {});
+  const sentRes = createResponse(true);
+  handler(error, { url: "/users/42" }, sentRes, next.fn);
+  assert.is(next.callCount, 1);
+  assert.is(sentRes.body, "");
+});
+
+test("emit recorder captures emits of attached factory", () => {
+  const recorder = createEmitRecorder();
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, { extendedParams: { app: "shop" } });
+  const featureError = createErrorContext("Payment").feature("Refund");
+
+  const detach = recorder.attach(createErrorContext);
+  const error = featureError("NetworkError", "Timeout");
+  error.emit({ attempt: 1 });
+
+  assert.is(recorder.records.length, 1);
+  assert.equal(recorder.errors, [error]);
+  assert.equal(recorder.records[0]?.extendedParams, { app: "shop", attempt: 1 });
+
+  recorder.clear();
+  detach();
+
+  const originalConsoleError = console.error;
+  const consoleErrorSpy = snoop(() => {});
+  console.error = consoleErrorSpy.fn;
+  error.emit();
+  console.error = originalConsoleError;
+
+  assert.is(recorder.records.length, 0);
+  assert.is(consoleErrorSpy.callCount, 1);
+});
+
+test("expectConwayError asserts type, context and params", async () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "LogicError" }] as const);
+  const refundError = createErrorContext("Payment").subcontext("Refund").feature("Process");
+  const cause = new Error("ECONNRESET");
+
+  const { error } = expectConwayError(() => {
+    throw refundError("NetworkError", "Timeout", { originalError: cause, extendedParams: { order: { id: 1 }, try: 2 } });
+  })
+    .toHaveType("NetworkError")
+    .toHaveContext("Payment/Refund")
+    .toHaveFeature("Process")
+    .toHaveMessage(/Timeout$/)
+    .toHaveExtendedParams({ order: { id: 1 } })
+    .toHaveOriginalError(cause);
+  assert.is(error.name, "NetworkError");
+
+  assert.throws(() => expectConwayError(() => {}), /Expected function to throw Conway error/);
+  assert.throws(() => expectConwayError(new Error("plain")), /Expected Conway error/);
+  assert.throws(() => expectConwayError(error).toHaveType("LogicError"), /Expected error type LogicError/);
+  assert.throws(() => expectConwayError(error).toHaveContext("Payment/Ref"), /Expected error from context/);
+
+  const rejected = await expectConwayErrorAsync(() => Promise.reject(refundError("LogicError", "Invalid state")));
+  rejected.toHaveType("LogicError");
+  (await expectConwayErrorAsync(Promise.reject(error))).toHaveContext("Payment");
+
+  try {
+    await expectConwayErrorAsync(Promise.resolve(1));
+    assert.unreachable();
+  } catch (assertionError) {
+    assert.is((assertionError as Error).name, "AssertionError");
+  }
+});
+
+test("error snapshot strips stack traces", () => {
+  const featureError = createError([{ errorType: "NetworkError" }] as const)("Payment").feature("Refund");
+  const inner = featureError("NetworkError", "Inner", { originalError: new Error("Cause") });
+  const error = featureError("NetworkError", "Outer", { originalError: inner });
+
+  const snapshot = toErrorSnapshot(error);
+
+  assert.not.match(JSON.stringify(snapshot), /"stack"/);
+  assert.equal(toErrorSnapshot(error), snapshot);
+  assert.is((snapshot as { message: string }).message, "Payment/Refund: Outer");
+  assert.is(
+    (snapshot as { originalError: { originalError: { message: string } } }).originalError.originalError.message,
+    "Cause"
+  );
+});
+
+test("emit awaits async handler and routes rejections to onEmitError", async () => {
+  const delivered: string[] = [];
+  const onEmitError = snoop((_error: unknown) => {});
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: async (err) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      if (err.message.endsWith("Broken")) {
+        throw new Error("Transport down");
+      }
+
+      delivered.push(err.message);
+    },
+    onEmitError: onEmitError.fn,
+  });
+  const featureError = createErrorContext("Payment").feature("Refund");
+
+  await featureError("NetworkError", "Timeout").emit();
+  assert.equal(delivered, ["Payment/Refund: Timeout"]);
+
+  await featureError("NetworkError", "Broken").emit();
+  assert.is(onEmitError.callCount, 1);
+  assert.is((onEmitError.calls[0]?.arguments[0] as Error).message, "Transport down");
+});
+
+test("emit routes synchronous handler throws to onEmitError", async () => {
+  const onEmitError = snoop((_error: unknown) => {});
+  const featureError = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: () => {
+      throw new Error("boom");
+    },
+    onEmitError: onEmitError.fn,
+  })("Payment").feature("Refund");
+
+  await featureError("NetworkError", "Timeout").emit();
+  assert.is(onEmitError.callCount, 1);
+  assert.is((onEmitError.calls[0]?.arguments[0] as Error).message, "boom");
+
+  const originalConsoleError = console.error;
+  const consoleErrorSpy = snoop(() => {});
+  console.error = consoleErrorSpy.fn;
+  await deserializeConwayError(featureError("NetworkError", "Timeout").toJSON(), {
+    handleEmit: () => {
+      throw new Error("boom");
+    },
+  }).emit();
+  console.error = originalConsoleError;
+  assert.is(consoleErrorSpy.callCount, 1);
+});
+
+test("emit resolves when onEmitError throws", async () => {
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: () => Promise.reject(new Error("Transport down")),
+    onEmitError: () => {
+      throw new Error("onEmitError failed");
+    },
+  });
+
+  const originalConsoleError = console.error;
+  const consoleErrorSpy = snoop((_message: string, _error: unknown) => {});
+  console.error = consoleErrorSpy.fn;
+
+  try {
+    await createErrorContext("Payment").feature("Refund")("NetworkError", "Timeout").emit();
+    await createErrorContext.flush();
+  } finally {
+    console.error = originalConsoleError;
+  }
+
+  assert.is(consoleErrorSpy.callCount, 1);
+  assert.is((consoleErrorSpy.calls[0]?.arguments[1] as Error).message, "onEmitError failed");
+});
+
+test("buffered emit batches by size and drains on flush", async () => {
+  const batches: string[][] = [];
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    buffer: {
+      maxSize: 2,
+      flushIntervalMs: 60_000,
+      handleBatch: (events) => {
+        batches.push(events.map((event) => event.error.message));
+      },
+    },
+  });
+  const featureError = createErrorContext("Payment").feature("Refund");
+
+  const first = featureError("NetworkError", "First").emit();
+  assert.is(batches.length, 0);
+  const second = featureError("NetworkError", "Second").emit();
+  await Promise.all([first, second]);
+  assert.equal(batches, [["Payment/Refund: First", "Payment/Refund: Second"]]);
+
+  featureError("NetworkError", "Third").emit();
+  await createErrorContext.flush();
+  assert.equal(batches[1], ["Payment/Refund: Third"]);
+});
+
+test("buffered emit flushes after interval and close turns buffering off", async () => {
+  const handleEmit = snoop((_err: unknown, _extendedParams?: unknown) => {});
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: handleEmit.fn,
+    buffer: { flushIntervalMs: 5 },
+  });
+  const featureError = createErrorContext("Payment").feature("Refund");
+
+  await featureError("NetworkError", "Delayed", { extendedParams: { order: 1 } }).emit();
+  assert.is(handleEmit.callCount, 1);
+  assert.equal(handleEmit.calls[0]?.arguments[1], { order: 1 });
+
+  featureError("NetworkError", "Pending").emit();
+  await createErrorContext.close();
+  assert.is(handleEmit.callCount, 2);
+
+  featureError("NetworkError", "After close").emit();
+  assert.is(handleEmit.callCount, 3);
+});
+
+test("error metrics count created and emitted errors and export Prometheus text", async () => {
+  let time = 0;
+  const metrics = createErrorMetrics({ windowMs: 10_000, maxSeries: 2, now: () => time });
+  const createErrorContext = createError([{ errorType: "NetworkError" }, { errorType: "LogicError" }] as const, {
+    handleEmit: () => {},
+    metrics,
+  });
+  const refundError = createErrorContext("Payment").subcontext("Refund").feature("Process");
+
+  refundError("NetworkError", "Timeout").emit();
+  await refundError("NetworkError", "Timeout").emit();
+  refundError("LogicError", "Invalid state");
+  time = 20_000;
+  refundError("NetworkError", "Timeout");
+  createErrorContext("Auth").feature("Login")("LogicError", "Bad \"token\"");
+
+  const { series } = metrics.snapshot();
+  assert.equal(series[0], {
+    rootContext: "Payment",
+    contextsChunk: "Payment/Refund",
+    feature: "Process",
+    errorType: "NetworkError",
+    created: 3,
+    emitted: 2,
+    createdRate: 0.1,
+    emittedRate: 0,
+  });
+  assert.is(series.length, 3);
+  assert.is(series[2]?.errorType, "__overflow__");
+
+  const text = metrics.toPrometheus();
+  assert.match(text, "# TYPE conway_errors_created_total counter\n");
+  assert.match(
+    text,
+    'conway_errors_emitted_total{root_context="Payment",context="Payment/Refund",feature="Process",error_type="NetworkError"} 2\n'
+  );
+  assert.match(text, /conway_errors_created_rate\{root_context="__overflow__",.*\} 0.1\n/);
+
+  metrics.reset();
+  assert.equal(metrics.snapshot().series, []);
+});
+
+test("formatMessage customizes message per context and errors keep raw message", () => {
+  const createErrorContext = createError(
+    [{ errorType: "NetworkError", createMessagePostfix: (cause) => ` (${(cause as Error).message})` }] as const,
+    { formatMessage: (parts) => `[${parts.errorType}] ${defaultFormatMessage(parts)}` }
+  );
+  const paymentContext = createErrorContext("Payment");
+  const cause = new Error("ECONNRESET");
+
+  const error = paymentContext.subcontext("Refund").feature("Process")("NetworkError", "Timeout", { originalError: cause });
+  assert.is(error.message, "[NetworkError] Payment/Refund/Process: Timeout (ECONNRESET)");
+  assert.is(error.rawMessage, "Timeout");
+  assert.is(error.contextPath, "Payment/Refund/Process");
+
+  const formatMessage = snoop(
+    ({ contextSegments, feature, rawMessage }: MessageFormatParts) =>
+      `${[...contextSegments, feature].join(" › ")}: ${rawMessage}`
+  );
+  const refundError = paymentContext
+    .subcontext("Refund", {}, { formatMessage: formatMessage.fn })
+    .feature("Process", { region: "eu" });
+  assert.is(refundError("NetworkError", "Timeout").message, "Payment › Refund › Process: Timeout");
+  assert.equal(formatMessage.calls[0]?.arguments[0], {
+    contextSegments: ["Payment", "Refund"],
+    feature: "Process",
+    errorType: "NetworkError",
+    rawMessage: "Timeout",
+    postfix: "",
+    extendedParams: undefined,
+  });
+
+  const restored = deserializeConwayError(JSON.parse(JSON.stringify(error)));
+  assert.is(restored.rawMessage, "Timeout");
+  assert.is(restored.contextPath, "Payment/Refund/Process");
+});
+
+test("owners are inherited by nested declarations and route emits", async () => {
+  const payments = { team: "payments", onCallChannel: "C123", severityPolicy: "page" };
+  const routed: string[] = [];
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: createEmitPipeline({
+      transports: [
+        createOwnerTransport({
+          routes: {
+            payments: (err) => routed.push(`payments:${err.message}`),
+            refunds: (err) => routed.push(`refunds:${err.message}`),
+          },
+          fallback: (err) => routed.push(`fallback:${err.message}`),
+        }),
+      ],
+    }),
+  });
+  const paymentContext = createErrorContext("Payment", {}, { owner: payments });
+
+  const checkoutError = paymentContext.feature("Checkout")("NetworkError", "Timeout");
+  assert.equal(checkoutError.owner, payments);
+
+  const refundContext = paymentContext.subcontext("Refund", {}, { owner: { team: "refunds" } });
+  const refundError = refundContext.feature("Process")("NetworkError", "Timeout");
+  assert.equal(refundError.owner, { team: "refunds" });
+
+  const unownedError = createErrorContext("Auth").feature("Login")("NetworkError", "Timeout");
+  assert.is(unownedError.owner, undefined);
+
+  await checkoutError.emit();
+  await refundError.emit();
+  await unownedError.emit();
+  assert.equal(routed, [
+    "payments:Payment/Checkout: Timeout",
+    "refunds:Payment/Refund/Process: Timeout",
+    "fallback:Auth/Login: Timeout",
+  ]);
+
+  assert.equal(deserializeConwayError(JSON.parse(JSON.stringify(checkoutError))).owner, payments);
+});
+
+test("emit handlers of nested declarations run first and bubble up to root handler", async () => {
+  const calls: string[] = [];
+  const rootHandleEmit = snoop((_err: unknown, _extendedParams?: unknown) => {});
+  const onEmitError = snoop((_error: unknown) => {});
+  const createErrorContext = createError([{ errorType: "NetworkError" }] as const, {
+    handleEmit: rootHandleEmit.fn,
+    onEmitError: onEmitError.fn,
+  });
+  const paymentContext = createErrorContext(
+    "Payment",
+    {},
+    {
+      handleEmit: (event) => {
+        calls.push(`context:${event.extendedParams.dashboard}`);
+      },
+    }
+  );
+  const refundFeature = paymentContext
+    .subcontext(
+      "Refund",
+      {},
+      {
+        handleEmit: async (event) => {
+          calls.push("subcontext");
+          event.extendedParams = { ...event.extendedParams, dashboard: "refunds" };
+        },
+      }
+    )
+    .feature(
+      "Process",
+      {},
+      {
+        handleEmit: (event) => {
+          calls.push("feature");
+
+          if (event.error.message.endsWith("Local")) {
+            event.stopPropagation();
+          }
+        },
+      }
+    );
+
+  await refundFeature("NetworkError", "Timeout", { extendedParams: { orderId: 1 } }).emit();
+  assert.equal(calls, ["feature", "subcontext", "context:refunds"]);
+  assert.equal(rootHandleEmit.calls[0]?.arguments[1], { orderId: 1, dashboard: "refunds" });
+
+  calls.length = 0;
+  await refundFeature("NetworkError", "Local").emit();
+  assert.equal(calls, ["feature"]);
+  assert.is(rootHandleEmit.callCount, 1);
+
+  const failingFeature = paymentContext.feature("Checkout", {}, {
+    handleEmit: () => {
+      throw new Error("Dashboard down");
+    },
+  });
+  await failingFeature("NetworkError", "Timeout").emit();
+  assert.is(onEmitError.callCount, 1);
+  assert.is(rootHandleEmit.callCount, 2);
+});
+
 test.run();
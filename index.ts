@@ -1,148 +1,2827 @@
 /**
  * Root interface for any specific error type.
  */
-export interface IConwayError extends Error {
+export interface IConwayError<ErrorType extends string = string, Params extends object = ExtendedParams> extends Error {
+  name: ErrorType;
   rootContext: string;
   contextsChunk: string;
   feature: string;
+  readonly contextPath: string;
+  rawMessage: string;
+  code: ErrorCode;
+  fingerprint: string;
   originalError?: OriginalError;
+  extendedParams?: Params;
+  messageTemplate?: MessageTemplateInfo;
+  retryable: boolean;
+  retryAfterMs?: number;
+  httpStatus?: number;
+  exposure: ErrorExposure;
+  owner?: ErrorOwner;
+  readonly frames: StackFrame[];
+
+  emit: EmitFn;
+  toJSON(): SerializedConwayError;
+}
+
+/**
+ * Conway error which collects several child errors under one context path, shaped as native `AggregateError`.
+ */
+export interface IConwayAggregateError<
+  ErrorType extends string = string,
+  Params extends object = ExtendedParams,
+  ChildError = unknown,
+> extends IConwayError<ErrorType, Params> {
+  errors: ChildError[];
+}
+
+/**
+ * Team which owns context, subcontext or feature. Can be extended with declaration merging.
+ */
+export interface ErrorOwner {
+  team: string;
+  onCallChannel?: string;
+  severityPolicy?: string;
+}
+
+/**
+ * Whether message and extended params of error can be shown to API clients.
+ */
+export type ErrorExposure = "public" | "private";
+
+/**
+ * How `emit` of aggregate error reports: the aggregate itself or each child error separately.
+ */
+export type AggregateEmitMode = "aggregate" | "children";
+
+class ConwayError extends Error implements IConwayError {
+  readonly rootContext: string;
+  readonly contextsChunk: string;
+  readonly originalError?: OriginalError;
+  readonly extendedParams?: ExtendedParams;
+
+  feature = "";
+  rawMessage: string;
+  code: ErrorCode = "";
+  fingerprint = "";
+  messageTemplate?: MessageTemplateInfo;
+  retryable = false;
+  retryAfterMs?: number;
+  httpStatus?: number;
+  exposure: ErrorExposure = "private";
+  owner?: ErrorOwner;
+
+  constructor(
+    name: string,
+    rootContext: string,
+    contextsChunk: string,
+    message: string,
+    emit: EmitFn,
+    originalError?: OriginalError,
+    extendedParams?: ExtendedParams
+  ) {
+    super(message, originalError !== undefined ? { cause: originalError } : undefined);
+    this.name = name;
+    this.rootContext = rootContext;
+    this.contextsChunk = contextsChunk;
+    this.rawMessage = message;
+    this.originalError = originalError;
+    this.emit = emit;
+    this.extendedParams = extendedParams;
+
+    if (originalError !== undefined && !("cause" in this)) {
+      Object.defineProperty(this, "cause", { value: originalError, writable: true, configurable: true });
+    }
+
+    defineLazyStack(this, new.target, originalError);
+  }
+
+  emit: EmitFn;
+
+  get contextPath(): string {
+    return `${this.contextsChunk}/${this.feature}`;
+  }
+
+  get frames(): StackFrame[] {
+    return parseStackFrames(splitStack(this.stack).frames);
+  }
+
+  toJSON(): SerializedConwayError {
+    return serializeConwayError(this);
+  }
+}
+
+/**
+ * Emits error to emit handler. Returned promise resolves when handler (or its batch in buffered mode) settles
+ * and never rejects, handler failures (sync or async) are passed to `onEmitError`.
+ */
+type EmitFn = (extendedParams?: ExtendedParams) => Promise<void>;
+
+function noop() {}
+
+/**
+ * Stable code of Conway error, explicit from `ErrorTypeConfig` or derived from error location.
+ */
+export type ErrorCode = string | number;
+
+/**
+ * Type guard which helps to understand if error is Conway error.
+ * @param error
+ * @return {boolean}
+ */
+export function isConwayError(error: unknown): error is IConwayError {
+  return typeof error === "object" && error instanceof ConwayError;
+}
+
+/**
+ * Type guard which helps to understand if error is aggregate Conway error.
+ * @param error
+ * @return {boolean}
+ */
+export function isConwayAggregateError(error: unknown): error is IConwayAggregateError {
+  return isConwayError(error) && "errors" in error && Array.isArray(error.errors);
+}
+
+function setAggregatedErrors(error: IConwayError, errors: unknown[]) {
+  Object.defineProperty(error, "errors", { value: errors, writable: true, configurable: true });
+}
+
+function summarizeErrors(errors: readonly unknown[], message?: string) {
+  const count = `${errors.length} ${errors.length === 1 ? "error" : "errors"}`;
+  const details = errors.map((error) => (error instanceof Error ? error.message : String(error))).join("; ");
+  const summary = details ? `${count}: ${details}` : count;
+
+  return message ? `${message} (${summary})` : summary;
+}
+
+function formatCause(cause: unknown): string {
+  if (cause instanceof Error) {
+    return cause.stack ?? `${cause.name}: ${cause.message}`;
+  }
+
+  if (typeof cause === "object" && cause !== null) {
+    try {
+      return JSON.stringify(cause);
+    } catch {
+      return String(cause);
+    }
+  }
+
+  return String(cause);
+}
+
+/**
+ * Parsed frame of stack trace.
+ */
+export interface StackFrame {
+  functionName?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  source: string;
+}
+
+const V8_FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?$/;
+const GECKO_FRAME_PATTERN = /^([^@\s]*)@(.+?):(\d+)(?::(\d+))?$/;
+
+function isStackFrameLine(line: string) {
+  return V8_FRAME_PATTERN.test(line) || GECKO_FRAME_PATTERN.test(line);
+}
+
+function splitStack(stack = "") {
+  const lines = stack.split("\n");
+  const firstFrame = lines.findIndex(isStackFrameLine);
+
+  if (firstFrame === -1) {
+    return { header: lines, frames: [], rest: [] };
+  }
+
+  const lastFrame = lines.findIndex((line, i) => i > firstFrame && !isStackFrameLine(line));
+  const framesEnd = lastFrame === -1 ? lines.length : lastFrame;
+
+  return {
+    header: lines.slice(0, firstFrame),
+    frames: lines.slice(firstFrame, framesEnd),
+    rest: lines.slice(framesEnd),
+  };
+}
+
+function parseStackFrame(source: string): StackFrame {
+  const match = source.match(V8_FRAME_PATTERN) ?? source.match(GECKO_FRAME_PATTERN);
+  const [, functionName, file, line, column] = match ?? [];
+
+  return {
+    functionName: functionName || undefined,
+    file,
+    line: line === undefined ? undefined : Number(line),
+    column: column === undefined ? undefined : Number(column),
+    source: source.trim(),
+  };
+}
+
+function parseStackFrames(lines: string[]): StackFrame[] {
+  return lines.map(parseStackFrame);
+}
+
+const libraryFile = detectLibraryFile(new Error().stack);
+
+function detectLibraryFile(moduleStack?: string) {
+  const [ownFrame, callerFrame] = parseStackFrames(splitStack(moduleStack).frames);
+
+  // library bundled together with application code can't be told apart by file
+  return ownFrame?.file !== undefined && ownFrame.file !== callerFrame?.file ? ownFrame.file : undefined;
+}
+
+function isLibraryFrame(frame: StackFrame) {
+  return libraryFile !== undefined && frame.file === libraryFile;
+}
+
+function cleanStack(stack: string | undefined, keepFrame: (frame: StackFrame) => boolean) {
+  if (stack === undefined) {
+    return stack;
+  }
+
+  const { header, frames, rest } = splitStack(stack);
+  return [...header, ...frames.filter((line) => keepFrame(parseStackFrame(line))), ...rest].join("\n");
+}
+
+const stackFrameFilters = new WeakMap<IConwayError, (frame: StackFrame) => boolean>();
+
+/**
+ * Replaces stack of error with accessor which adds cause and filters frames on first read.
+ * V8 formats stack trace on any access to own `stack`, so trace is captured into separate object.
+ */
+function defineLazyStack(error: Error, constructorOpt: NewableFunction, originalError: unknown) {
+  const trace: { name: string; message: string; stack?: string } = { name: error.name, message: error.message };
+
+  if (typeof Error.captureStackTrace === "function") {
+    Error.captureStackTrace(trace, constructorOpt);
+    // plain assignment drops stack trace of `super` without formatting it, unlike redefining the property
+    error.stack = undefined;
+  } else {
+    trace.stack = error.stack;
+  }
+
+  let stack: string | undefined;
+  let isFormatted = false;
+
+  Object.defineProperty(error, "stack", {
+    configurable: true,
+    get() {
+      if (!isFormatted) {
+        const keepFrame = stackFrameFilters.get(error as IConwayError);
+        const fullStack =
+          originalError !== undefined ? `${trace.stack}\nCaused by: ${formatCause(originalError)}` : trace.stack;
+
+        stack = keepFrame ? cleanStack(fullStack, keepFrame) : fullStack;
+        isFormatted = true;
+      }
+
+      return stack;
+    },
+    set(value: string | undefined) {
+      stack = value;
+      isFormatted = true;
+    },
+  });
+}
+
+function getNextCause(error: unknown): unknown {
+  if (isConwayError(error)) {
+    return error.originalError;
+  }
+
+  return typeof error === "object" && error !== null && "cause" in error ? error.cause : undefined;
+}
+
+/**
+ * Collects error and all its causes (`cause` or `originalError` for Conway errors) from outermost to innermost.
+ *
+ * @param {unknown} error - Error to start from.
+ * @return {unknown[]} List of errors in the cause chain, including the passed error.
+ */
+export function getCauseChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+
+  while (current !== undefined && !chain.includes(current)) {
+    chain.push(current);
+    current = getNextCause(current);
+  }
+
+  return chain;
+}
+
+/**
+ * Returns the innermost cause of an error.
+ *
+ * @param {unknown} error - Error to start from.
+ * @return {unknown} Root cause or the error itself if it has no cause.
+ */
+export function getRootCause(error: unknown): unknown {
+  const chain = getCauseChain(error);
+  return chain[chain.length - 1];
+}
+
+/**
+ * Finds the first Conway error in the cause chain.
+ *
+ * @param {unknown} error - Error to start from.
+ * @return {IConwayError | undefined} First Conway error or undefined.
+ */
+export function findConwayError(error: unknown): IConwayError | undefined {
+  return getCauseChain(error).find(isConwayError);
+}
+
+/**
+ * Lists context paths (`Context/Subcontext/Feature`) of every Conway error in the cause chain.
+ *
+ * @param {unknown} error - Error to start from.
+ * @return {string[]} Context paths from outermost to innermost.
+ */
+export function getContextPaths(error: unknown): string[] {
+  return getCauseChain(error)
+    .filter(isConwayError)
+    .map((err) => err.contextPath);
+}
+
+/**
+ * Version of the wire format produced by `serializeConwayError`.
+ */
+export const SERIALIZATION_VERSION = 1;
+
+/**
+ * Plain JSON value produced by serialization.
+ */
+export type SerializedValue = null | boolean | number | string | SerializedValue[] | { [key: string]: SerializedValue };
+
+/**
+ * Wire format of a Conway error.
+ */
+export interface SerializedConwayError {
+  $type: "ConwayError";
+  version: number;
+  name: string;
+  message: string;
+  rawMessage?: string;
+  stack?: string;
+  rootContext: string;
+  contextsChunk: string;
+  feature: string;
+  code?: ErrorCode;
+  fingerprint?: string;
+  extendedParams?: SerializedValue;
+  originalError?: SerializedValue;
+  messageTemplate?: SerializedValue;
+  errors?: SerializedValue;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  httpStatus?: number;
+  exposure?: ErrorExposure;
+  owner?: SerializedValue;
+}
+
+interface DeserializeOptions {
+  handleEmit?: CreateErrorOptions["handleEmit"];
+  errorClasses?: Record<string, ConwayErrorClass<string>>;
+}
+
+function getDeserializedErrorClass(errorClasses: DeserializeOptions["errorClasses"], name: string) {
+  const ErrorClass =
+    errorClasses && Object.prototype.hasOwnProperty.call(errorClasses, name) ? errorClasses[name] : undefined;
+
+  return ErrorClass?.prototype instanceof ConwayError ? (ErrorClass as ReturnType<typeof createErrorClass>) : undefined;
+}
+
+const CIRCULAR_MARKER = "[Circular]";
+
+function serializeValue(value: unknown, ancestors: Set<object>): SerializedValue | undefined {
+  if (value === null || typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : { $type: "Number", value: String(value) };
+  }
+
+  if (typeof value === "bigint") {
+    return { $type: "BigInt", value: value.toString() };
+  }
+
+  if (typeof value !== "object") {
+    return undefined;
+  }
+
+  if (ancestors.has(value)) {
+    return { $type: "Circular" };
+  }
+
+  ancestors.add(value);
+
+  try {
+    if (isConwayError(value)) {
+      return serializeConwayErrorWith(value, ancestors) as unknown as SerializedValue;
+    }
+
+    if (value instanceof Error) {
+      const serialized: { [key: string]: SerializedValue } = {
+        $type: "Error",
+        name: value.name,
+        message: value.message,
+      };
+
+      if (value.stack !== undefined) {
+        serialized.stack = value.stack;
+      }
+
+      const props = serializeEntries(value, ancestors, ["name", "message", "stack"]);
+      if (Object.keys(props).length > 0) {
+        serialized.props = props;
+      }
+
+      return serialized;
+    }
+
+    if (value instanceof Date) {
+      return { $type: "Date", value: value.toISOString() };
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeValue(item, ancestors) ?? null);
+    }
+
+    const entries = serializeEntries(value, ancestors);
+    return "$type" in entries ? { $type: "Object", value: entries } : entries;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function setEntry(target: object, key: string, value: unknown) {
+  // assignment to own `__proto__` key (e.g. from `JSON.parse`) would replace prototype instead of copying the key
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+function serializeEntries(source: object, ancestors: Set<object>, skipKeys: string[] = []) {
+  const result: { [key: string]: SerializedValue } = {};
+
+  for (const key of Object.getOwnPropertyNames(source)) {
+    if (skipKeys.includes(key)) {
+      continue;
+    }
+
+    const serialized = serializeValue((source as Record<string, unknown>)[key], ancestors);
+    if (serialized !== undefined) {
+      setEntry(result, key, serialized);
+    }
+  }
+
+  return result;
+}
+
+function serializeConwayErrorWith(error: IConwayError, ancestors: Set<object>): SerializedConwayError {
+  ancestors.add(error);
+
+  const serialized: SerializedConwayError = {
+    $type: "ConwayError",
+    version: SERIALIZATION_VERSION,
+    name: error.name,
+    message: error.message,
+    rawMessage: error.rawMessage,
+    stack: error.stack,
+    rootContext: error.rootContext,
+    contextsChunk: error.contextsChunk,
+    feature: error.feature,
+    code: error.code,
+    fingerprint: error.fingerprint,
+  };
+
+  if (error.extendedParams !== undefined) {
+    serialized.extendedParams = serializeValue(error.extendedParams, ancestors);
+  }
+
+  if (error.originalError !== undefined) {
+    serialized.originalError = serializeValue(error.originalError, ancestors);
+  }
+
+  if (error.messageTemplate !== undefined) {
+    serialized.messageTemplate = serializeValue(error.messageTemplate, ancestors);
+  }
+
+  if (isConwayAggregateError(error)) {
+    serialized.errors = serializeValue(error.errors, ancestors);
+  }
+
+  if (error.retryable) {
+    serialized.retryable = true;
+  }
+
+  if (error.retryAfterMs !== undefined) {
+    serialized.retryAfterMs = error.retryAfterMs;
+  }
+
+  if (error.httpStatus !== undefined) {
+    serialized.httpStatus = error.httpStatus;
+  }
+
+  if (error.exposure === "public") {
+    serialized.exposure = error.exposure;
+  }
+
+  if (error.owner !== undefined) {
+    serialized.owner = serializeValue(error.owner, ancestors);
+  }
+
+  ancestors.delete(error);
+
+  return serialized;
+}
+
+/**
+ * Converts Conway error to versioned JSON-safe wire format.
+ * Circular references are replaced with markers.
+ *
+ * @param {IConwayError} error - Conway error to serialize.
+ * @return {SerializedConwayError} Plain object which can be passed to `JSON.stringify`.
+ */
+export function serializeConwayError(error: IConwayError): SerializedConwayError {
+  return serializeConwayErrorWith(error, new Set());
+}
+
+function isTaggedObject(value: SerializedValue | undefined): value is { [key: string]: SerializedValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && typeof value.$type === "string";
+}
+
+function deserializeValue(value: SerializedValue | undefined, options: DeserializeOptions): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => deserializeValue(item, options));
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  if (!isTaggedObject(value)) {
+    return deserializeEntries(value, options);
+  }
+
+  switch (value.$type) {
+    case "ConwayError":
+      return deserializeConwayError(value as unknown as SerializedConwayError, options);
+    case "Error": {
+      const error = new Error(String(value.message));
+      error.name = String(value.name);
+      if (typeof value.stack === "string") {
+        error.stack = value.stack;
+      }
+      if (typeof value.props === "object" && value.props !== null && !Array.isArray(value.props)) {
+        deserializeEntries(value.props, options, error);
+      }
+      return error;
+    }
+    case "Date":
+      return new Date(String(value.value));
+    case "Number":
+      return Number(value.value);
+    case "BigInt":
+      return BigInt(String(value.value));
+    case "Circular":
+      return CIRCULAR_MARKER;
+    case "Object":
+      return deserializeEntries(value.value as { [key: string]: SerializedValue }, options);
+    default:
+      return deserializeEntries(value, options);
+  }
+}
+
+function deserializeEntries(
+  value: { [key: string]: SerializedValue },
+  options: DeserializeOptions,
+  result: object = {}
+): Record<string, unknown> {
+  for (const key of Object.keys(value)) {
+    setEntry(result, key, deserializeValue(value[key], options));
+  }
+
+  return result as Record<string, unknown>;
+}
+
+/**
+ * Rebuilds Conway error from wire format produced by `serializeConwayError` or `JSON.stringify`.
+ * Errors become instances of `errorClasses` of matching type, `deserialize` of `createError` factory passes its own.
+ *
+ * @param {string | SerializedConwayError} json - Serialized error or its JSON string.
+ * @param {DeserializeOptions} options - Options for rebuilt error, including emit handler.
+ * @return {IConwayError} Conway error with working `emit`.
+ */
+export function deserializeConwayError(
+  json: string | SerializedConwayError,
+  options: DeserializeOptions = {}
+): IConwayError {
+  const serialized: SerializedConwayError = typeof json === "string" ? JSON.parse(json) : json;
+
+  if (typeof serialized !== "object" || serialized === null || serialized.$type !== "ConwayError") {
+    throw new TypeError("Value is not a serialized Conway error");
+  }
+
+  if (serialized.version > SERIALIZATION_VERSION) {
+    throw new TypeError(`Unsupported Conway error serialization version: ${serialized.version}`);
+  }
+
+  const handleEmit = options.handleEmit ?? defaultHandleEmit;
+  const extendedParams = deserializeValue(serialized.extendedParams, options) as ExtendedParams | undefined;
+
+  const emit: EmitFn = (emitExtendedParams = {}) =>
+    new Promise<unknown>((resolve) => resolve(handleEmit(error, { ...extendedParams, ...emitExtendedParams }))).then(
+      noop,
+      defaultHandleEmitError
+    );
+
+  const ErrorClass = getDeserializedErrorClass(options.errorClasses, serialized.name);
+  const originalError = deserializeValue(serialized.originalError, options);
+  const { name, rootContext, contextsChunk, message } = serialized;
+  const error = ErrorClass
+    ? new ErrorClass(rootContext, contextsChunk, message, emit, originalError, extendedParams)
+    : new ConwayError(name, rootContext, contextsChunk, message, emit, originalError, extendedParams);
+
+  error.feature = serialized.feature;
+  error.rawMessage = serialized.rawMessage ?? stripContextPath(error.message, error.contextPath);
+  error.code = serialized.code ?? createErrorCode(serialized.contextsChunk, serialized.feature, serialized.name);
+
+  if (serialized.messageTemplate !== undefined) {
+    error.messageTemplate = deserializeValue(serialized.messageTemplate, options) as MessageTemplateInfo;
+  }
+
+  error.fingerprint = serialized.fingerprint ?? createErrorFingerprint(error);
+
+  if (Array.isArray(serialized.errors)) {
+    setAggregatedErrors(error, deserializeValue(serialized.errors, options) as unknown[]);
+  }
+
+  error.retryable = serialized.retryable === true;
+  error.retryAfterMs = serialized.retryAfterMs;
+  error.httpStatus = serialized.httpStatus;
+  error.exposure = serialized.exposure ?? "private";
+
+  if (serialized.owner !== undefined) {
+    error.owner = deserializeValue(serialized.owner, options) as ErrorOwner;
+  }
+
+  if (serialized.stack !== undefined) {
+    error.stack = serialized.stack;
+  }
+
+  return error;
+}
+
+/**
+ * Marker which replaces redacted values by default.
+ */
+export const REDACTED_MARKER = "[REDACTED]";
+
+/**
+ * Declarative rules which replace sensitive data in messages, extended params and original errors.
+ * `paths` are dot-separated key paths relative to extended params or original error, `*` matches any key.
+ */
+export interface RedactionRules {
+  paths?: string[];
+  keys?: Array<string | RegExp>;
+  values?: RegExp[];
+  redactors?: Array<(value: unknown, path: string) => unknown>;
+  marker?: string;
+}
+
+/**
+ * Values of Conway error before redaction.
+ */
+export interface RedactedOriginals {
+  message: string;
+  extendedParams?: ExtendedParams;
+  originalError?: OriginalError;
+  messageTemplate?: MessageTemplateInfo;
+}
+
+interface Redactor {
+  value<T>(value: T): T;
+  message(message: string): string;
+}
+
+const redactedOriginals = new WeakMap<IConwayError, RedactedOriginals>();
+
+function isRedactable(value: object) {
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || value instanceof Error || prototype === Object.prototype || prototype === null;
+}
+
+function createRedactor(rules: RedactionRules[]): Redactor | undefined {
+  if (rules.length === 0) {
+    return undefined;
+  }
+
+  const paths = rules.flatMap((rule) => rule.paths ?? []).map((path) => path.split("."));
+  const keys = rules.flatMap((rule) => rule.keys ?? []);
+  const values = rules
+    .flatMap((rule) => rule.values ?? [])
+    .map((regexp) => (regexp.global ? regexp : new RegExp(regexp.source, `${regexp.flags}g`)));
+  const redactors = rules.flatMap((rule) => rule.redactors ?? []);
+  const marker = rules.reduce((acc, rule) => rule.marker ?? acc, REDACTED_MARKER);
+
+  const isPathMatched = (path: string[]) =>
+    paths.some(
+      (pattern) => pattern.length === path.length && pattern.every((key, i) => key === "*" || key === path[i])
+    );
+
+  const isKeyMatched = (key: string) =>
+    keys.some((pattern) =>
+      typeof pattern === "string" ? pattern.toLowerCase() === key.toLowerCase() : key.search(pattern) !== -1
+    );
+
+  const message = (text: string) => values.reduce((acc, regexp) => acc.replace(regexp, marker), text);
+
+  const redact = (value: unknown, path: string[], copies: Map<object, unknown>): unknown => {
+    const key = path[path.length - 1];
+
+    if (key !== undefined && (isPathMatched(path) || isKeyMatched(key))) {
+      return marker;
+    }
+
+    const result = redactors.reduce((acc, redactor) => redactor(acc, path.join(".")), value);
+
+    if (typeof result === "string") {
+      return message(result);
+    }
+
+    if (typeof result !== "object" || result === null || !isRedactable(result)) {
+      return result;
+    }
+
+    const existingCopy = copies.get(result);
+    if (existingCopy !== undefined) {
+      return existingCopy;
+    }
+
+    const copy = Array.isArray(result) ? [] : Object.create(Object.getPrototypeOf(result));
+    copies.set(result, copy);
+
+    for (const name of Object.getOwnPropertyNames(result)) {
+      const descriptor = Object.getOwnPropertyDescriptor(result, name);
+
+      if (descriptor === undefined || (Array.isArray(result) && name === "length")) {
+        continue;
+      }
+
+      // accessors (e.g. lazy `stack` of Conway error) would return unredacted value, so they become data properties
+      const dataDescriptor: PropertyDescriptor =
+        descriptor.get !== undefined
+          ? {
+              value: descriptor.get.call(result),
+              writable: true,
+              enumerable: descriptor.enumerable,
+              configurable: descriptor.configurable,
+            }
+          : descriptor;
+
+      if ("value" in dataDescriptor) {
+        dataDescriptor.value = redact(dataDescriptor.value, [...path, name], copies);
+      }
+
+      Object.defineProperty(copy, name, dataDescriptor);
+    }
+
+    return copy;
+  };
+
+  return {
+    value: <T>(value: T) => redact(value, [], new Map()) as T,
+    message,
+  };
+}
+
+/**
+ * Returns values of Conway error before redaction. Available only in the process where error was created.
+ *
+ * @param {IConwayError} error - Redacted Conway error.
+ * @return {RedactedOriginals | undefined} Original message, extended params, original error and message template.
+ */
+export function revealRedacted(error: IConwayError): RedactedOriginals | undefined {
+  return redactedOriginals.get(error);
+}
+
+/**
+ * Storage of ambient extended params, compatible with `AsyncLocalStorage` from `node:async_hooks`.
+ */
+export interface ErrorContextStorage {
+  run<T>(store: ExtendedParams, fn: () => T): T;
+  getStore(): ExtendedParams | undefined;
+}
+
+let errorContextStorage: ErrorContextStorage | undefined;
+let isSyncContextStorage = false;
+
+function createSyncContextStorage(): ErrorContextStorage {
+  let currentStore: ExtendedParams | undefined;
+
+  return {
+    run: (store, fn) => {
+      const previousStore = currentStore;
+      currentStore = store;
+
+      try {
+        return fn();
+      } finally {
+        currentStore = previousStore;
+      }
+    },
+    getStore: () => currentStore,
+  };
+}
+
+type AsyncLocalStorageClass = new () => ErrorContextStorage;
+
+type AsyncHooksModule = { AsyncLocalStorage?: AsyncLocalStorageClass } | undefined;
+
+function loadAsyncLocalStorage(): AsyncLocalStorageClass | undefined {
+  const runtime = globalThis as {
+    AsyncLocalStorage?: AsyncLocalStorageClass;
+    process?: { versions?: { node?: string }; getBuiltinModule?: (id: string) => AsyncHooksModule };
+  };
+
+  if (runtime.AsyncLocalStorage || runtime.process?.versions?.node === undefined) {
+    return runtime.AsyncLocalStorage;
+  }
+
+  // no static `require` or `import` of `node:async_hooks`, so browser bundles stay free of Node builtins
+  if (runtime.process.getBuiltinModule) {
+    return runtime.process.getBuiltinModule("node:async_hooks")?.AsyncLocalStorage;
+  }
+
+  // CommonJS build in Node before 20.16, bundlers don't trace `module.require` unlike `require`
+  const commonJsModule = typeof module === "object" ? (module as { require?: (id: string) => AsyncHooksModule }) : {};
+
+  try {
+    return commonJsModule.require?.("async_hooks")?.AsyncLocalStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+function getErrorContextStorage() {
+  if (!errorContextStorage) {
+    const AsyncLocalStorage = loadAsyncLocalStorage();
+    errorContextStorage = AsyncLocalStorage ? new AsyncLocalStorage() : createSyncContextStorage();
+    isSyncContextStorage = !AsyncLocalStorage;
+  }
+
+  return errorContextStorage;
+}
+
+function warnSyncContextStorage() {
+  if (isSyncContextStorage) {
+    isSyncContextStorage = false;
+    console.warn(
+      "conway-errors: AsyncLocalStorage is not available, ambient params are lost after first `await`. " +
+        "Pass storage with `setErrorContextStorage`."
+    );
+  }
+}
+
+/**
+ * Replaces storage of ambient extended params, e.g. with `AsyncLocalStorage` instance in older Node or edge runtimes.
+ * By default `AsyncLocalStorage` is used when global or available in Node (through `process.getBuiltinModule`
+ * or CommonJS `module.require`), otherwise params are visible only in synchronous code and a warning is logged once.
+ * ES module build in Node before 20.16 has no synchronous access to `node:async_hooks` and needs this call.
+ *
+ * @param {ErrorContextStorage} storage - Storage with `run` and `getStore` methods.
+ */
+export function setErrorContextStorage(storage: ErrorContextStorage) {
+  errorContextStorage = storage;
+  isSyncContextStorage = false;
+}
+
+/**
+ * Returns ambient extended params of the current `runWithErrorContext` scope.
+ *
+ * @return {ExtendedParams | undefined} Ambient extended params or undefined outside of scope.
+ */
+export function getErrorContext(): ExtendedParams | undefined {
+  return getErrorContextStorage().getStore();
+}
+
+/**
+ * Runs function within scope of ambient extended params (request id, user id, tenant).
+ * Params are merged into every error created or emitted inside the scope, nested scopes extend outer ones.
+ * Ambient params override context and feature params, and are overridden by error and emit params.
+ *
+ * @param {ExtendedParams} extendedParams - Ambient extended params.
+ * @param {Function} fn - Function to run within the scope.
+ * @return {T} Result of the function.
+ */
+export function runWithErrorContext<T>(extendedParams: ExtendedParams, fn: () => T): T {
+  const storage = getErrorContextStorage();
+  warnSyncContextStorage();
+
+  return storage.run({ ...getErrorContext(), ...extendedParams }, fn);
+}
+
+/**
+ * Record of context, subcontext or feature declared with `createError`.
+ */
+export type ErrorRegistryEntry = {
+  kind: "context" | "subcontext" | "feature";
+  name: string;
+  path: string;
+  rootContext: string;
+  parentPath?: string;
+  extendedParams: ExtendedParams;
+  errorTypes: string[];
+};
+
+/**
+ * Node of exported error catalog tree.
+ */
+export type ErrorCatalogNode = {
+  name: string;
+  path: string;
+  extendedParams: ExtendedParams;
+  errorTypes: string[];
+  subcontexts: ErrorCatalogNode[];
+  features: Array<Omit<ErrorCatalogNode, "subcontexts" | "features">>;
+};
+
+/**
+ * Registry of declared contexts, subcontexts and features.
+ */
+export interface ErrorRegistry {
+  record(entry: ErrorRegistryEntry): void;
+  entries(): ErrorRegistryEntry[];
+  toJSON(): { contexts: ErrorCatalogNode[] };
+  toMarkdown(): string;
+}
+
+function escapeMarkdownCell(value: string) {
+  return value.replace(/\|/g, "\\|");
+}
+
+/**
+ * Creates registry which records declarations when passed as `registry` option of `createError`.
+ * Registry can export declared tree as JSON and as Markdown catalog of every `Context/Feature: ErrorType` combination.
+ *
+ * @return {ErrorRegistry} Error registry.
+ */
+export function createErrorRegistry(): ErrorRegistry {
+  const entries = new Map<string, ErrorRegistryEntry>();
+
+  const toNode = ({ name, path, extendedParams, errorTypes }: ErrorRegistryEntry): ErrorCatalogNode => {
+    const children = [...entries.values()].filter((entry) => entry.parentPath === path);
+
+    return {
+      name,
+      path,
+      extendedParams,
+      errorTypes,
+      subcontexts: children.filter((entry) => entry.kind === "subcontext").map(toNode),
+      features: children
+        .filter((entry) => entry.kind === "feature")
+        .map((feature) => ({
+          name: feature.name,
+          path: feature.path,
+          extendedParams: feature.extendedParams,
+          errorTypes: feature.errorTypes,
+        })),
+    };
+  };
+
+  const registry: ErrorRegistry = {
+    record: (entry) => {
+      const key = `${entry.kind}:${entry.path}`;
+
+      if (!entries.has(key)) {
+        entries.set(key, entry);
+      }
+    },
+    entries: () => [...entries.values()],
+    toJSON: () => ({
+      contexts: [...entries.values()].filter((entry) => entry.kind === "context").map(toNode),
+    }),
+    toMarkdown: () => {
+      const lines = ["# Error Catalog"];
+
+      for (const context of registry.entries().filter((entry) => entry.kind === "context")) {
+        const features = registry
+          .entries()
+          .filter((entry) => entry.kind === "feature" && entry.rootContext === context.path);
+
+        lines.push("", `## ${context.name}`, "");
+
+        if (features.length === 0) {
+          lines.push("_No features_");
+          continue;
+        }
+
+        lines.push("| Error | Error type | Extended params |", "| --- | --- | --- |");
+
+        for (const feature of features) {
+          const extendedParams = escapeMarkdownCell(JSON.stringify(feature.extendedParams));
+
+          for (const errorType of feature.errorTypes.length > 0 ? feature.errorTypes : ["UnknownError"]) {
+            lines.push(`| \`${escapeMarkdownCell(feature.path)}\` | \`${errorType}\` | \`${extendedParams}\` |`);
+          }
+        }
+      }
+
+      return `${lines.join("\n")}\n`;
+    },
+  };
+
+  return registry;
+}
+
+function createErrorClass(name: string) {
+  const ErrorClass = class extends ConwayError {
+    constructor(
+      rootContext: string,
+      contextsChunk: string,
+      message: string,
+      emit: EmitFn,
+      originalError?: OriginalError,
+      extendedParams?: ExtendedParams
+    ) {
+      super(name, rootContext, contextsChunk, message, emit, originalError, extendedParams);
+    }
+  };
+
+  Object.defineProperty(ErrorClass, "name", { value: name });
+
+  return ErrorClass;
+}
+
+function validateParams(errorType: string, schema?: ParamsSchema<object>, params?: ExtendedParams) {
+  const result = schema?.validate?.(params);
+
+  if (result === false) {
+    throw new TypeError(`Invalid extendedParams for ${errorType}`);
+  }
+
+  if (typeof result === "string") {
+    throw new TypeError(`Invalid extendedParams for ${errorType}: ${result}`);
+  }
+}
+
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
+function createErrorCode(contextsChunk: string, featureName: string, errorType: string): string {
+  return `${errorType}-${hashString(`${contextsChunk}/${featureName}`).slice(0, 8).toUpperCase()}`;
+}
+
+function createErrorFingerprint(
+  error: Pick<IConwayError, "name" | "rootContext" | "contextsChunk" | "feature">,
+  templateId?: string
+): string {
+  return hashString([error.rootContext, error.contextsChunk, error.feature, error.name, templateId ?? ""].join("\n"));
+}
+
+/**
+ * Message, error type and extended params pulled from thrown value by `ErrorExtractor`.
+ */
+export interface ExtractedError {
+  message: string;
+  errorType?: string;
+  extendedParams?: ExtendedParams;
+}
+
+/**
+ * Pulls message and details from thrown value of specific shape, returns `undefined` for other shapes.
+ */
+export type ErrorExtractor = (thrown: unknown) => ExtractedError | undefined;
+
+function isObjectWith<Key extends string>(value: unknown, key: Key): value is Record<Key, unknown> {
+  return typeof value === "object" && value !== null && key in value;
+}
+
+// fetch `Response` and similar HTTP response objects
+const extractResponse: ErrorExtractor = (thrown) => {
+  if (
+    !isObjectWith(thrown, "status") ||
+    !isObjectWith(thrown, "statusText") ||
+    typeof thrown.status !== "number" ||
+    typeof thrown.statusText !== "string"
+  ) {
+    return undefined;
+  }
+
+  return {
+    message: `HTTP ${thrown.status}${thrown.statusText ? ` ${thrown.statusText}` : ""}`,
+    extendedParams: isObjectWith(thrown, "url")
+      ? { status: thrown.status, url: thrown.url }
+      : { status: thrown.status },
+  };
+};
+
+const extractMessage: ErrorExtractor = (thrown) => {
+  if (typeof thrown === "string") {
+    return { message: thrown };
+  }
+
+  // errors from other realms and DOMException are not always instances of Error
+  if (isObjectWith(thrown, "message") && typeof thrown.message === "string") {
+    return { message: thrown.message };
+  }
+
+  return undefined;
+};
+
+function extractError(thrown: unknown, extractors: ErrorExtractor[]): ExtractedError {
+  for (const extractor of [...extractors, extractResponse, extractMessage]) {
+    const extracted = extractor(thrown);
+
+    if (extracted !== undefined) {
+      return extracted;
+    }
+  }
+
+  return { message: formatCause(thrown) };
+}
+
+/**
+ * Value which can be substituted into message template placeholder.
+ */
+export type MessageValue = string | number | boolean;
+
+/**
+ * Values required by placeholders (`{name}`) of message template.
+ */
+export type TemplateValues<Template extends string> = Template extends `${string}{${infer Name}}${infer Rest}`
+  ? { [Key in Name]: MessageValue } & TemplateValues<Rest>
+  : Record<never, never>;
+
+/**
+ * Message template with values, stored on Conway error as `messageTemplate`.
+ */
+export type MessageTemplateInfo = {
+  id: string;
+  template: string;
+  values: Record<string, MessageValue>;
+};
+
+/**
+ * Message built from template, accepted by features instead of message string.
+ */
+export interface TemplatedMessage extends MessageTemplateInfo {
+  toString(): string;
+}
+
+function interpolateMessage(template: string, values: Record<string, MessageValue>) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder
+  );
+}
+
+function resolveMessage(
+  errorType: string,
+  declaredTemplate: MessageTemplateFn | undefined,
+  message: string | TemplatedMessage | Record<string, MessageValue>
+): string | TemplatedMessage {
+  if (typeof message !== "object" || isTemplatedMessage(message)) {
+    return message;
+  }
+
+  if (!declaredTemplate) {
+    throw new TypeError(`Error type ${errorType} has no message template for values ${JSON.stringify(message)}`);
+  }
+
+  return (declaredTemplate as MessageTemplateFn<Record<string, MessageValue>>)(message);
+}
+
+function isTemplatedMessage(message: unknown): message is TemplatedMessage {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof (message as TemplatedMessage).id === "string" &&
+    typeof (message as TemplatedMessage).template === "string"
+  );
+}
+
+/**
+ * Function which builds message from placeholder values, can be declared as `message` of error type.
+ */
+export type MessageTemplateFn<Values = never> = (values: Values) => TemplatedMessage;
+
+/**
+ * Declares message template with typed placeholders, e.g. `"Payment {paymentId} already processed"`.
+ * Declared as `message` of error type, it lets features pass only placeholder values instead of message.
+ *
+ * @param {string} id - Stable identifier of the message, used as key in locale catalogs.
+ * @param {string} template - Default message template.
+ * @return {Function} Function which builds message from placeholder values.
+ */
+export function messageTemplate<const Template extends string>(
+  id: string,
+  template: Template
+): MessageTemplateFn<TemplateValues<Template>> {
+  return (values: TemplateValues<Template>): TemplatedMessage => {
+    const messageValues = values as Record<string, MessageValue>;
+
+    return {
+      id,
+      template,
+      values: messageValues,
+      toString: () => interpolateMessage(template, messageValues),
+    };
+  };
+}
+
+/**
+ * Catalog of localized message templates.
+ */
+export interface MessageCatalog {
+  register(locale: string, messages: Record<string, string>): void;
+  render(error: IConwayError, locale: string): string;
+}
+
+/**
+ * Creates catalog of localized message templates keyed by locale and message id.
+ * `render` looks up exact locale first, then its language (`"ru"` for `"ru-RU"`),
+ * and falls back to the default template or the error message.
+ *
+ * @param {Record<string, Record<string, string>>} locales - Initial templates by locale and message id.
+ * @return {MessageCatalog} Message catalog.
+ */
+export function createMessageCatalog(locales: Record<string, Record<string, string>> = {}): MessageCatalog {
+  const catalogs = new Map<string, Record<string, string>>();
+
+  const catalog: MessageCatalog = {
+    register: (locale, messages) => {
+      catalogs.set(locale, { ...catalogs.get(locale), ...messages });
+    },
+    render: (error, locale) => {
+      const { messageTemplate } = error;
+
+      if (!messageTemplate) {
+        return error.message;
+      }
+
+      const [language = locale] = locale.split("-");
+      const template =
+        catalogs.get(locale)?.[messageTemplate.id] ??
+        catalogs.get(language)?.[messageTemplate.id] ??
+        messageTemplate.template;
+
+      return interpolateMessage(template, messageTemplate.values);
+    },
+  };
+
+  for (const locale of Object.keys(locales)) {
+    catalog.register(locale, locales[locale] ?? {});
+  }
+
+  return catalog;
+}
+
+/**
+ * Parts of error message passed to `formatMessage`.
+ */
+export interface MessageFormatParts {
+  contextSegments: string[];
+  feature: string;
+  errorType: string;
+  rawMessage: string;
+  postfix: string;
+  extendedParams?: ExtendedParams;
+}
+
+/**
+ * Builds full error message from its parts.
+ */
+export type MessageFormatter = (parts: MessageFormatParts) => string;
+
+/**
+ * Default message format: `Context/Subcontext/Feature: message` followed by postfix.
+ */
+export const defaultFormatMessage: MessageFormatter = ({ contextSegments, feature, rawMessage, postfix }) =>
+  `${[...contextSegments, feature].join("/")}: ${rawMessage}${postfix}`;
+
+function stripContextPath(message: string, contextPath: string) {
+  const prefix = `${contextPath}: `;
+  return message.startsWith(prefix) ? message.slice(prefix.length) : message;
+}
+
+/**
+ * Error with extended params passing through emit pipeline.
+ */
+export type EmitEvent = {
+  error: IConwayError;
+  extendedParams: ExtendedParams;
+};
+
+/**
+ * Step of emit pipeline. Returns event (possibly enriched or transformed) or `null` to drop the error.
+ * Events emitted later with `context.emit` pass through following middleware and transports.
+ */
+export type EmitMiddleware = (event: EmitEvent, context: EmitMiddlewareContext) => EmitEvent | null;
+
+/**
+ * Pipeline handle passed to middleware.
+ */
+export interface EmitMiddlewareContext {
+  emit(event: EmitEvent): Promise<void>;
+}
+
+/**
+ * Middleware which holds back events until window expires or `flush` is called.
+ */
+export type FlushableEmitMiddleware = EmitMiddleware & { flush(): Promise<void> };
+
+function isFlushable(value: unknown): value is { flush(): Promise<void> } {
+  return (
+    (typeof value === "function" || (typeof value === "object" && value !== null)) &&
+    typeof (value as { flush?: unknown }).flush === "function"
+  );
+}
+
+/**
+ * Named destination of emitted errors with optional filters.
+ */
+export interface EmitTransport {
+  name: string;
+  handle: (err: IConwayError, extendedParams: ExtendedParams) => unknown;
+  errorTypes?: ReadonlyArray<string>;
+  contextPrefix?: string;
+  filter?: (event: EmitEvent) => boolean;
+}
+
+interface EmitPipelineOptions {
+  middleware?: ReadonlyArray<EmitMiddleware>;
+  transports?: ReadonlyArray<EmitTransport>;
+  onTransportError?: (error: unknown, transport: EmitTransport, event: EmitEvent) => void;
+  onMiddlewareError?: (error: unknown, event: EmitEvent) => void;
+}
+
+/**
+ * Transport which writes errors to `console.error`.
+ */
+export const consoleTransport: EmitTransport = {
+  name: "console",
+  handle: (err) => {
+    console.error(err);
+  },
+};
+
+/**
+ * Creates transport which routes errors to handler of their owner team.
+ * Unowned errors and errors of teams without own route go to `fallback`.
+ *
+ * @param {Record<string, Function>} options.routes - Handlers by owner team.
+ * @param {Function} [options.fallback] - Handler of unowned errors, such errors are dropped without it.
+ * @param {string} [options.name="owners"] - Transport name.
+ * @return {EmitTransport} Routing transport.
+ */
+export function createOwnerTransport(options: {
+  routes: Record<string, EmitTransport["handle"]>;
+  fallback?: EmitTransport["handle"];
+  name?: string;
+}): EmitTransport {
+  const { routes, fallback, name = "owners" } = options;
+
+  return {
+    name,
+    handle: (err, extendedParams) => {
+      const team = err.owner?.team;
+      const route = team !== undefined && Object.prototype.hasOwnProperty.call(routes, team) ? routes[team] : fallback;
+      return route?.(err, extendedParams);
+    },
+  };
+}
+
+function defaultHandleEmit(err: IConwayError, extendedParams?: ExtendedParams) {
+  consoleTransport.handle(err, extendedParams ?? {});
+}
+
+function defaultHandleEmitError(error: unknown) {
+  console.error("Conway emit handler failed", error);
+}
+
+function defaultHandleTransportError(error: unknown, transport: EmitTransport) {
+  console.error(`Conway emit transport "${transport.name}" failed`, error);
+}
+
+function defaultHandleMiddlewareError(error: unknown) {
+  console.error("Conway emit middleware failed", error);
+}
+
+function isPathWithin(path: string, prefix: string) {
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+function isTransportMatched(transport: EmitTransport, event: EmitEvent) {
+  const { error } = event;
+
+  if (transport.errorTypes && !transport.errorTypes.includes(error.name)) {
+    return false;
+  }
+
+  if (transport.contextPrefix !== undefined && !isPathWithin(error.contextPath, transport.contextPrefix)) {
+    return false;
+  }
+
+  return transport.filter?.(event) ?? true;
+}
+
+function withSuppressedCount(event: EmitEvent, suppressedCount: number): EmitEvent {
+  if (suppressedCount === 0) {
+    return event;
+  }
+
+  const previousCount = event.extendedParams.suppressedCount;
+
+  return {
+    ...event,
+    extendedParams: {
+      ...event.extendedParams,
+      suppressedCount: (typeof previousCount === "number" ? previousCount : 0) + suppressedCount,
+    },
+  };
+}
+
+function createEmitFingerprint({ error }: EmitEvent) {
+  return [error.contextsChunk, error.feature, error.name, error.message].join("|");
+}
+
+type SuppressedOccurrences = {
+  suppressed: number;
+  lastEvent?: EmitEvent;
+  context?: EmitMiddlewareContext;
+};
+
+function reportSuppressed({ suppressed, lastEvent, context }: SuppressedOccurrences): Promise<void> {
+  if (suppressed === 0 || !lastEvent || !context) {
+    return Promise.resolve();
+  }
+
+  // reports run outside of emit call (timer or next event), so failures can't reach its caller
+  return new Promise<unknown>((resolve) => resolve(context.emit(withSuppressedCount(lastEvent, suppressed)))).then(
+    noop,
+    defaultHandleMiddlewareError
+  );
+}
+
+function createSweepTimer(sweep: () => number | undefined) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const sweepSafely = () => {
+    try {
+      return sweep();
+    } catch (error) {
+      defaultHandleMiddlewareError(error);
+      return undefined;
+    }
+  };
+
+  const schedule = (delayMs: number | undefined) => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (delayMs === undefined) {
+      return;
+    }
+
+    timer = setTimeout(() => schedule(sweepSafely()), Math.max(0, delayMs));
+    // pending report should not keep process alive, `flush` reports it before exit
+    (timer as { unref?: () => void }).unref?.();
+  };
+
+  return {
+    ensure: (delayMs: number) => {
+      if (timer === undefined) {
+        schedule(delayMs);
+      }
+    },
+    cancel: () => schedule(undefined),
+  };
+}
+
+/**
+ * Creates middleware which collapses repeated errors with the same fingerprint within time window.
+ * Collapsed occurrences are reported as `suppressedCount` extended param: by first occurrence after the window,
+ * or by the last collapsed error when window expires without repeats or on `flush`.
+ *
+ * @param {number} options.windowMs - Dedup window in milliseconds.
+ * @param {Function} [options.fingerprint] - Fingerprint of event, by default context path, feature, error type and message.
+ * @param {Function} [options.now] - Clock, `Date.now` by default.
+ * @return {FlushableEmitMiddleware} Dedup middleware.
+ */
+export function createDedupeMiddleware(options: {
+  windowMs: number;
+  fingerprint?: (event: EmitEvent) => string;
+  now?: () => number;
+}): FlushableEmitMiddleware {
+  const { windowMs, fingerprint = createEmitFingerprint, now = Date.now } = options;
+  const windows = new Map<string, SuppressedOccurrences & { startedAt: number }>();
+
+  const sweep = (time: number, activeKey?: string) => {
+    const reports: Promise<void>[] = [];
+    let nextExpiry: number | undefined;
+
+    for (const [windowKey, window] of windows) {
+      if (windowKey === activeKey) {
+        continue;
+      }
+
+      const expiresIn = window.startedAt + windowMs - time;
+
+      if (expiresIn <= 0) {
+        windows.delete(windowKey);
+        reports.push(reportSuppressed(window));
+      } else if (window.suppressed > 0) {
+        nextExpiry = Math.min(nextExpiry ?? expiresIn, expiresIn);
+      }
+    }
+
+    return { reported: Promise.all(reports).then(noop), nextExpiry };
+  };
+
+  const timer = createSweepTimer(() => sweep(now()).nextExpiry);
+
+  const middleware: EmitMiddleware = (event, context) => {
+    const key = fingerprint(event);
+    const time = now();
+    const window = windows.get(key);
+
+    if (window && time - window.startedAt < windowMs) {
+      window.suppressed++;
+      window.lastEvent = event;
+      window.context = context;
+      timer.ensure(window.startedAt + windowMs - time);
+      return null;
+    }
+
+    sweep(time, key);
+    windows.set(key, { startedAt: time, suppressed: 0 });
+
+    return withSuppressedCount(event, window?.suppressed ?? 0);
+  };
+
+  const flush = () => {
+    const reports = [...windows.values()].map(reportSuppressed);
+    windows.clear();
+    timer.cancel();
+
+    return Promise.all(reports).then(noop);
+  };
+
+  return Object.assign(middleware, { flush });
+}
+
+/**
+ * Creates token bucket middleware which limits emits per context or error type.
+ * Dropped emits are reported as `suppressedCount` extended param: by first emit after limited period,
+ * or by the last dropped error when bucket refills without further emits or on `flush`.
+ *
+ * @param {number} options.capacity - Maximum burst of emits.
+ * @param {number} options.refillPerSecond - Number of emits restored per second.
+ * @param {string | Function} [options.by="context"] - Bucket key: context path, error type or custom function.
+ * @param {Function} [options.now] - Clock, `Date.now` by default.
+ * @return {FlushableEmitMiddleware} Rate limit middleware.
+ */
+export function createRateLimitMiddleware(options: {
+  capacity: number;
+  refillPerSecond: number;
+  by?: "context" | "errorType" | ((event: EmitEvent) => string);
+  now?: () => number;
+}): FlushableEmitMiddleware {
+  const { capacity, refillPerSecond, by = "context", now = Date.now } = options;
+  const buckets = new Map<string, SuppressedOccurrences & { tokens: number; updatedAt: number }>();
+
+  const getKey = (event: EmitEvent) => {
+    if (typeof by === "function") {
+      return by(event);
+    }
+
+    return by === "errorType" ? event.error.name : event.error.contextsChunk;
+  };
+
+  const getRefillDelay = (tokens: number) => ((capacity - tokens) / refillPerSecond) * 1000;
+
+  const refill = (bucket: { tokens: number; updatedAt: number }, time: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = time;
+  };
+
+  const sweep = (time: number, activeKey?: string) => {
+    const reports: Promise<void>[] = [];
+    let nextRefill: number | undefined;
+
+    for (const [bucketKey, bucket] of buckets) {
+      if (bucketKey === activeKey) {
+        continue;
+      }
+
+      refill(bucket, time);
+
+      if (bucket.tokens >= capacity) {
+        buckets.delete(bucketKey);
+        reports.push(reportSuppressed(bucket));
+      } else if (bucket.suppressed > 0) {
+        nextRefill = Math.min(nextRefill ?? Number.POSITIVE_INFINITY, getRefillDelay(bucket.tokens));
+      }
+    }
+
+    return { reported: Promise.all(reports).then(noop), nextRefill };
+  };
+
+  const timer = createSweepTimer(() => sweep(now()).nextRefill);
+
+  const middleware: EmitMiddleware = (event, context) => {
+    const key = getKey(event);
+    const time = now();
+
+    sweep(time, key);
+
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: time, suppressed: 0 };
+    refill(bucket, time);
+    buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      bucket.suppressed++;
+      bucket.lastEvent = event;
+      bucket.context = context;
+      timer.ensure(getRefillDelay(bucket.tokens));
+      return null;
+    }
+
+    const suppressed = bucket.suppressed;
+    bucket.tokens--;
+    bucket.suppressed = 0;
+    bucket.lastEvent = undefined;
+    bucket.context = undefined;
+
+    return withSuppressedCount(event, suppressed);
+  };
+
+  const flush = () => {
+    const reports = [...buckets.values()].map(reportSuppressed);
+    buckets.clear();
+    timer.cancel();
+
+    return Promise.all(reports).then(noop);
+  };
+
+  return Object.assign(middleware, { flush });
+}
+
+/**
+ * Creates middleware which passes only a share of errors of each error type.
+ * Passed errors receive `sampleRate` extended param when rate is lower than 1.
+ *
+ * @param {Record<string, number>} options.rates - Share of passed errors (0..1) by error type.
+ * @param {number} [options.defaultRate=1] - Share for error types missing in `rates`.
+ * @param {Function} [options.random] - Random generator, `Math.random` by default.
+ * @return {EmitMiddleware} Sampling middleware.
+ */
+export function createSamplingMiddleware(options: {
+  rates: Record<string, number>;
+  defaultRate?: number;
+  random?: () => number;
+}): EmitMiddleware {
+  const { rates, defaultRate = 1, random = Math.random } = options;
+
+  return (event) => {
+    const rate = rates[event.error.name] ?? defaultRate;
+
+    if (rate >= 1) {
+      return event;
+    }
+
+    if (random() >= rate) {
+      return null;
+    }
+
+    return { ...event, extendedParams: { ...event.extendedParams, sampleRate: rate } };
+  };
+}
+
+/**
+ * Creates `handleEmit` function which runs emitted errors through middleware and routes them to transports.
+ * Failure of one transport is reported with `onTransportError` and does not affect other transports.
+ * Failures of events emitted later by middleware (e.g. reports of suppressed counts) go to `onMiddlewareError`.
+ * `flush` releases events held back by middleware, `flush` of `createError` factory calls it.
+ *
+ * @param {EmitPipelineOptions} options - Ordered middleware, transports (console by default) and error handlers.
+ * @return {Function} Emit handler for `CreateErrorOptions.handleEmit`.
+ */
+export function createEmitPipeline(options: EmitPipelineOptions = {}) {
+  const {
+    middleware = [],
+    transports = [consoleTransport],
+    onTransportError = defaultHandleTransportError,
+    onMiddlewareError = defaultHandleMiddlewareError,
+  } = options;
+
+  const emitLater = (event: EmitEvent, firstStep: number): Promise<void> =>
+    new Promise<void>((resolve) => resolve(run(event, firstStep))).then(noop, (error) =>
+      onMiddlewareError(error, event)
+    );
+
+  const run = (initialEvent: EmitEvent, firstStep: number): Promise<void> => {
+    let event: EmitEvent | null = initialEvent;
+
+    for (const [index, step] of middleware.entries()) {
+      if (index < firstStep) {
+        continue;
+      }
+
+      event = step(event, { emit: (laterEvent) => emitLater(laterEvent, index + 1) });
+
+      if (!event) {
+        return Promise.resolve();
+      }
+    }
+
+    const pendingTransports: Promise<void>[] = [];
+
+    for (const transport of transports) {
+      const transportEvent = event;
+
+      try {
+        if (!isTransportMatched(transport, transportEvent)) {
+          continue;
+        }
+
+        const result = transport.handle(transportEvent.error, transportEvent.extendedParams);
+
+        if (result instanceof Promise) {
+          pendingTransports.push(result.then(noop, (error) => onTransportError(error, transport, transportEvent)));
+        }
+      } catch (error) {
+        onTransportError(error, transport, transportEvent);
+      }
+    }
+
+    return Promise.all(pendingTransports).then(noop);
+  };
+
+  const handleEmit = (err: IConwayError, extendedParams: ExtendedParams = {}) =>
+    run({ error: err, extendedParams }, 0);
+
+  const flush = () =>
+    Promise.all(middleware.map((step) => (isFlushable(step) ? step.flush() : undefined))).then(noop);
+
+  return Object.assign(handleEmit, { flush });
+}
+
+/**
+ * Options of in-memory error metrics.
+ */
+export interface ErrorMetricsOptions {
+  windowMs?: number;
+  maxSeries?: number;
+  maxLabelLength?: number;
+  prefix?: string;
+  now?: () => number;
+}
+
+/**
+ * Counters of single label set. Rates (per second over rolling window) are present when `windowMs` is set.
+ */
+export interface ErrorMetricsSeries {
+  rootContext: string;
+  contextsChunk: string;
+  feature: string;
+  errorType: string;
+  created: number;
+  emitted: number;
+  createdRate?: number;
+  emittedRate?: number;
+}
+
+/**
+ * JSON snapshot of error metrics.
+ */
+export interface ErrorMetricsSnapshot {
+  windowMs?: number;
+  series: ErrorMetricsSeries[];
+}
+
+/**
+ * In-memory error counters. Pass to `metrics` option of `createError`.
+ */
+export interface ErrorMetrics {
+  recordCreated(error: IConwayError): void;
+  recordEmitted(error: IConwayError): void;
+  snapshot(): ErrorMetricsSnapshot;
+  toPrometheus(): string;
+  reset(): void;
+}
+
+const METRICS_OVERFLOW_LABEL = "__overflow__";
+const METRICS_WINDOW_BUCKETS = 10;
+
+function createRollingCounter(windowMs: number, now: () => number) {
+  const bucketMs = windowMs / METRICS_WINDOW_BUCKETS;
+  const counts: number[] = new Array(METRICS_WINDOW_BUCKETS).fill(0);
+  const bucketIds: number[] = new Array(METRICS_WINDOW_BUCKETS).fill(-1);
+
+  return {
+    add() {
+      const bucketId = Math.floor(now() / bucketMs);
+      const slot = bucketId % METRICS_WINDOW_BUCKETS;
+
+      if (bucketIds[slot] !== bucketId) {
+        bucketIds[slot] = bucketId;
+        counts[slot] = 0;
+      }
+
+      counts[slot] = (counts[slot] ?? 0) + 1;
+    },
+    rate() {
+      const currentBucketId = Math.floor(now() / bucketMs);
+      let total = 0;
+
+      for (let slot = 0; slot < METRICS_WINDOW_BUCKETS; slot++) {
+        if (currentBucketId - (bucketIds[slot] ?? -1) < METRICS_WINDOW_BUCKETS) {
+          total += counts[slot] ?? 0;
+        }
+      }
+
+      return total / (windowMs / 1000);
+    },
+  };
+}
+
+function escapePrometheusLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Creates in-memory counters of created and emitted errors by root context, context, feature and error type.
+ * Label sets beyond `maxSeries` are counted in single `__overflow__` series to bound cardinality.
+ *
+ * @param {number} [options.windowMs] - Rolling window of rates, rates are not tracked by default.
+ * @param {number} [options.maxSeries=1000] - Maximum number of label sets.
+ * @param {number} [options.maxLabelLength=128] - Label values are truncated to this length.
+ * @param {string} [options.prefix="conway_errors"] - Prefix of Prometheus metric names.
+ * @param {Function} [options.now] - Clock, `Date.now` by default.
+ * @return {ErrorMetrics} Error metrics collector.
+ */
+export function createErrorMetrics(options: ErrorMetricsOptions = {}): ErrorMetrics {
+  const { windowMs, maxSeries = 1000, maxLabelLength = 128, prefix = "conway_errors", now = Date.now } = options;
+  const series = new Map<
+    string,
+    {
+      labels: Pick<ErrorMetricsSeries, "rootContext" | "contextsChunk" | "feature" | "errorType">;
+      created: number;
+      emitted: number;
+      createdWindow?: ReturnType<typeof createRollingCounter>;
+      emittedWindow?: ReturnType<typeof createRollingCounter>;
+    }
+  >();
+
+  const getSeries = (error: IConwayError) => {
+    const labels = {
+      rootContext: error.rootContext.slice(0, maxLabelLength),
+      contextsChunk: error.contextsChunk.slice(0, maxLabelLength),
+      feature: error.feature.slice(0, maxLabelLength),
+      errorType: error.name.slice(0, maxLabelLength),
+    };
+    let key = JSON.stringify(labels);
+
+    if (!series.has(key) && series.size >= maxSeries) {
+      labels.rootContext = labels.contextsChunk = labels.feature = labels.errorType = METRICS_OVERFLOW_LABEL;
+      key = METRICS_OVERFLOW_LABEL;
+    }
+
+    let item = series.get(key);
+
+    if (!item) {
+      item = {
+        labels,
+        created: 0,
+        emitted: 0,
+        createdWindow: windowMs ? createRollingCounter(windowMs, now) : undefined,
+        emittedWindow: windowMs ? createRollingCounter(windowMs, now) : undefined,
+      };
+      series.set(key, item);
+    }
+
+    return item;
+  };
+
+  const snapshot = (): ErrorMetricsSnapshot => ({
+    windowMs,
+    series: [...series.values()].map(({ labels, created, emitted, createdWindow, emittedWindow }) => ({
+      ...labels,
+      created,
+      emitted,
+      createdRate: createdWindow?.rate(),
+      emittedRate: emittedWindow?.rate(),
+    })),
+  });
+
+  const toPrometheus = () => {
+    const { series: items } = snapshot();
+    const metrics: [name: string, type: string, help: string, getValue: (item: ErrorMetricsSeries) => unknown][] = [
+      [`${prefix}_created_total`, "counter", "Number of created errors.", (item) => item.created],
+      [`${prefix}_emitted_total`, "counter", "Number of emitted errors.", (item) => item.emitted],
+    ];
+
+    if (windowMs) {
+      const windowHelp = `per second over last ${windowMs}ms.`;
+      metrics.push(
+        [`${prefix}_created_rate`, "gauge", `Created errors ${windowHelp}`, (item) => item.createdRate],
+        [`${prefix}_emitted_rate`, "gauge", `Emitted errors ${windowHelp}`, (item) => item.emittedRate]
+      );
+    }
+
+    const lines: string[] = [];
+
+    for (const [name, type, help, getValue] of metrics) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+      for (const item of items) {
+        const labels = [
+          `root_context="${escapePrometheusLabel(item.rootContext)}"`,
+          `context="${escapePrometheusLabel(item.contextsChunk)}"`,
+          `feature="${escapePrometheusLabel(item.feature)}"`,
+          `error_type="${escapePrometheusLabel(item.errorType)}"`,
+        ];
+        lines.push(`${name}{${labels.join(",")}} ${getValue(item)}`);
+      }
+    }
+
+    return `${lines.join("\n")}\n`;
+  };
+
+  return {
+    recordCreated: (error) => {
+      const item = getSeries(error);
+      item.created++;
+      item.createdWindow?.add();
+    },
+    recordEmitted: (error) => {
+      const item = getSeries(error);
+      item.emitted++;
+      item.emittedWindow?.add();
+    },
+    snapshot,
+    toPrometheus,
+    reset: () => series.clear(),
+  };
+}
+
+type ExtendedParams = Record<string, unknown>;
+
+type OriginalError = Error | Record<string, unknown> | unknown;
+
+type ErrorParams<ErrorType extends string> = Record<ErrorType, object>;
+type DefaultErrorParams<ErrorType extends string> = Record<ErrorType, ExtendedParams>;
+
+/**
+ * Union of Conway errors discriminated by error type (`name`).
+ */
+export type ConwayErrorOf<Params extends ErrorParams<string>> = {
+  [ErrorType in keyof Params & string]: IConwayError<ErrorType, Params[ErrorType]>;
+}[keyof Params & string];
+
+interface CreateErrorOptions<Params extends ErrorParams<string> = DefaultErrorParams<string>> {
+  handleEmit?: (err: ConwayErrorOf<Params>, extendedParams?: ExtendedParams) => void | PromiseLike<void>;
+  onEmitError?: (error: unknown) => void;
+  buffer?: EmitBufferOptions;
   extendedParams?: ExtendedParams;
+  registry?: ErrorRegistry;
+  fingerprintMessageTemplate?: boolean;
+  aggregateEmit?: AggregateEmitMode;
+  redaction?: RedactionRules;
+  stackFrameFilter?: (frame: StackFrame) => boolean;
+  keepLibraryFrames?: boolean;
+  extractors?: ErrorExtractor[];
+  metrics?: ErrorMetrics;
+  formatMessage?: MessageFormatter;
+}
 
-  emit: EmitFn;
+/**
+ * Buffered emit mode: errors are delivered in batches when buffer reaches `maxSize` or after `flushIntervalMs`.
+ * Batches go to `handleBatch`, or to `handleEmit` one by one.
+ */
+export interface EmitBufferOptions {
+  maxSize?: number;
+  flushIntervalMs?: number;
+  handleBatch?: (events: EmitEvent[]) => void | PromiseLike<void>;
+}
+
+/**
+ * Options of context, subcontext or feature, inherited by nested declarations.
+ */
+export interface ErrorContextOptions {
+  redaction?: RedactionRules;
+  formatMessage?: MessageFormatter;
+  owner?: ErrorOwner;
+  handleEmit?: ContextEmitHandler;
+}
+
+/**
+ * Emit passed to emit handlers of contexts, subcontexts and features. Handlers can replace or modify
+ * `extendedParams` for parent handlers and stop propagation (synchronously) before error reaches them.
+ */
+export interface ContextEmitEvent {
+  readonly error: IConwayError;
+  extendedParams: ExtendedParams;
+  stopPropagation(): void;
+}
+
+/**
+ * Emit handler of context, subcontext or feature.
+ */
+export type ContextEmitHandler = (event: ContextEmitEvent) => void | PromiseLike<void>;
+
+interface ContextSettings {
+  redaction: RedactionRules[];
+  formatMessage: MessageFormatter;
+  owner?: ErrorOwner;
+  emitHandlers: ContextEmitHandler[];
+}
+
+function mergeContextSettings(settings: ContextSettings, options: ErrorContextOptions): ContextSettings {
+  return {
+    redaction: options.redaction ? [...settings.redaction, options.redaction] : settings.redaction,
+    formatMessage: options.formatMessage ?? settings.formatMessage,
+    owner: options.owner ?? settings.owner,
+    emitHandlers: options.handleEmit ? [...settings.emitHandlers, options.handleEmit] : settings.emitHandlers,
+  };
+}
+
+function redactParams(settings: ContextSettings, params: ExtendedParams) {
+  return createRedactor(settings.redaction)?.value(params) ?? params;
+}
+
+const defaultErrorOptions: CreateErrorOptions = {
+  handleEmit: defaultHandleEmit,
+  extendedParams: {},
+};
+
+/**
+ * Declaration of extended params shape for specific error type.
+ */
+export type ParamsSchema<Params extends object> = {
+  validate?: (params: unknown) => boolean | string | undefined;
+  readonly __params?: Params;
+};
+
+/**
+ * Declares extended params shape of error type with optional runtime validator.
+ * Validator runs on error creation and can return `false` or message string to reject params.
+ *
+ * @param {Function} [validate] - Runtime validator of extended params.
+ * @return {ParamsSchema} Params schema for `ErrorTypeConfig` entry.
+ */
+export function paramsSchema<Params extends object>(
+  validate?: (params: unknown) => boolean | string | undefined
+): ParamsSchema<Params> {
+  return { validate };
+}
+
+type ErrorTypeConfig = ReadonlyArray<{
+  errorType: string;
+  message?: MessageTemplateFn;
+  createMessagePostfix?: (originalError?: OriginalError) => string;
+  params?: ParamsSchema<object>;
+  code?: ErrorCode;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  httpStatus?: number;
+  exposure?: ErrorExposure;
+}>;
+
+declare const messageValuesKey: unique symbol;
+
+type ErrorMessageValuesMap<ErrorTypes extends ErrorTypeConfig> = {
+  [ErrorType in ErrorTypes[number]["errorType"]]: Extract<ErrorTypes[number], { errorType: ErrorType }> extends {
+    message: (values: infer Values) => TemplatedMessage;
+  }
+    ? Values
+    : never;
+};
+
+// values of declared message templates travel with params map under type-only key, ignored by `keyof Params & string`
+type ErrorParamsMap<ErrorTypes extends ErrorTypeConfig> = {
+  [ErrorType in ErrorTypes[number]["errorType"]]: Extract<ErrorTypes[number], { errorType: ErrorType }> extends {
+    params: ParamsSchema<infer Params>;
+  }
+    ? Params
+    : ExtendedParams;
+} & { [messageValuesKey]?: ErrorMessageValuesMap<ErrorTypes> };
+
+type ErrorMessage<Params, Type extends string> =
+  | string
+  | TemplatedMessage
+  | (Params extends { [messageValuesKey]?: infer Values } ? (Type extends keyof Values ? Values[Type] : never) : never);
+
+/**
+ * Error class of specific error type, usable with `instanceof`.
+ */
+export type ConwayErrorClass<ErrorType extends string, Params extends object = ExtendedParams> = {
+  new (...args: never[]): IConwayError<ErrorType, Params>;
+  prototype: IConwayError<ErrorType, Params>;
+};
+
+type ErrorClasses<Params extends ErrorParams<string>> = {
+  [ErrorType in keyof Params & string]: ConwayErrorClass<ErrorType, Params[ErrorType]>;
+} & { UnknownError: ConwayErrorClass<"UnknownError"> };
+
+type ErrorMap = Record<
+  string,
+  {
+    errorClass: ReturnType<typeof createErrorClass>;
+    message?: MessageTemplateFn;
+    createMessagePostfix?: (originalError?: OriginalError) => string;
+    params?: ParamsSchema<object>;
+    code?: ErrorCode;
+    retryable?: boolean;
+    retryAfterMs?: number;
+    httpStatus?: number;
+    exposure?: ErrorExposure;
+  }
+>;
+
+type ErrorFnOptions<Params extends object = ExtendedParams> = {
+  originalError?: OriginalError;
+  extendedParams?: Params;
+  retryable?: boolean;
+  retryAfterMs?: number;
+};
+
+type AggregateErrorFnOptions<Params extends object = ExtendedParams> = ErrorFnOptions<Params> & {
+  emit?: AggregateEmitMode;
+};
+
+type ErrorFnArgs<Params extends object, Options extends object = ErrorFnOptions<Params>> =
+  Partial<Params> extends Params ? [options?: Options] : [options: Options & { extendedParams: Params }];
+
+type CreateErrorFn<ErrorType extends string, Params extends ErrorParams<ErrorType> = DefaultErrorParams<ErrorType>> = <
+  Type extends ErrorType,
+>(
+  errorType: Type,
+  message: ErrorMessage<Params, Type>,
+  ...args: ErrorFnArgs<Params[Type]>
+) => IConwayError<Type, Params[Type]>;
+
+/**
+ * Successful branch of `Result`.
+ */
+export type Ok<T> = { ok: true; value: T };
+
+/**
+ * Failed branch of `Result`.
+ */
+export type Err<E> = { ok: false; error: E };
+
+/**
+ * Value which is either successful `Ok` or failed `Err`.
+ */
+export type Result<T, E> = Ok<T> | Err<E>;
+
+/**
+ * Creates successful result.
+ *
+ * @param {T} value - Result value.
+ * @return {Ok<T>} Successful result.
+ */
+export function ok<T>(value: T): Ok<T> {
+  return { ok: true, value };
+}
+
+/**
+ * Creates failed result.
+ *
+ * @param {E} error - Result error.
+ * @return {Err<E>} Failed result.
+ */
+export function err<E>(error: E): Err<E> {
+  return { ok: false, error };
+}
+
+/**
+ * Transforms value of successful result, failed result is returned as is.
+ *
+ * @param {Result<T, E>} result - Source result.
+ * @param {Function} fn - Value transformer.
+ * @return {Result<U, E>} Transformed result.
+ */
+export function map<T, E, U>(result: Result<T, E>, fn: (value: T) => U): Result<U, E> {
+  return result.ok ? ok(fn(result.value)) : result;
+}
+
+/**
+ * Transforms error of failed result, successful result is returned as is.
+ *
+ * @param {Result<T, E>} result - Source result.
+ * @param {Function} fn - Error transformer.
+ * @return {Result<T, F>} Transformed result.
+ */
+export function mapErr<T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F> {
+  return result.ok ? result : err(fn(result.error));
+}
+
+/**
+ * Chains successful result with another result-returning function.
+ *
+ * @param {Result<T, E>} result - Source result.
+ * @param {Function} fn - Function which returns next result.
+ * @return {Result<U, E | F>} Next result or source failed result.
+ */
+export function andThen<T, E, U, F>(result: Result<T, E>, fn: (value: T) => Result<U, F>): Result<U, E | F> {
+  return result.ok ? fn(result.value) : result;
+}
+
+/**
+ * Returns value of successful result or throws error of failed result.
+ *
+ * @param {Result<T, E>} result - Source result.
+ * @return {T} Result value.
+ */
+export function unwrap<T, E>(result: Result<T, E>): T {
+  if (result.ok) {
+    return result.value;
+  }
+
+  throw result.error;
+}
+
+type FeatureResultMethods<ErrorType extends string, Params extends ErrorParams<ErrorType>> = {
+  /**
+   * Creates successful result.
+   *
+   * @param {T} value - Result value.
+   * @return {Result} Successful result.
+   */
+  ok: <T>(value: T) => Result<T, ConwayErrorOf<Params>>;
+  /**
+   * Creates failed result with error of the feature.
+   *
+   * @param {ErrorType} errorType - Type of the error.
+   * @param {string} message - Error message.
+   * @param {ErrorFnOptions} options - Original error and extended params.
+   * @return {Result} Failed result.
+   */
+  err: <Type extends ErrorType>(
+    errorType: Type,
+    message: string | TemplatedMessage,
+    ...args: ErrorFnArgs<Params[Type]>
+  ) => Result<never, IConwayError<Type, Params[Type]>>;
+  /**
+   * Converts promise into result. Rejection is wrapped into error of the feature.
+   *
+   * @param {Promise} promise - Source promise.
+   * @param {ErrorType} errorType - Type of the error for rejection.
+   * @param {string} [message] - Error message, by default taken from rejection reason.
+   * @param {ErrorFnOptions} options - Extended params of the error.
+   * @return {Promise<Result>} Promise of result, which never rejects.
+   */
+  fromPromise: <T, Type extends ErrorType>(
+    promise: PromiseLike<T>,
+    errorType: Type,
+    message?: string | TemplatedMessage,
+    ...args: ErrorFnArgs<Params[Type]>
+  ) => Promise<Result<T, IConwayError<Type, Params[Type]>>>;
+  /**
+   * Calls function and converts its return value or thrown value into result.
+   *
+   * @param {Function} fn - Function which may throw.
+   * @param {ErrorType} errorType - Type of the error for thrown value.
+   * @param {string} [message] - Error message, by default taken from thrown value.
+   * @param {ErrorFnOptions} options - Extended params of the error.
+   * @return {Result} Result of the call.
+   */
+  fromThrowable: <T, Type extends ErrorType>(
+    fn: () => T,
+    errorType: Type,
+    message?: string | TemplatedMessage,
+    ...args: ErrorFnArgs<Params[Type]>
+  ) => Result<T, IConwayError<Type, Params[Type]>>;
+};
+
+type FeatureAggregateMethods<ErrorType extends string, Params extends ErrorParams<ErrorType>> = {
+  /**
+   * Creates aggregate error of the feature, which collects several child errors.
+   *
+   * @param {ErrorType} errorType - Type of the aggregate error.
+   * @param {unknown[]} errors - Child Conway errors or arbitrary errors.
+   * @param {string} [message] - Message prepended to summary of child errors.
+   * @param {AggregateErrorFnOptions} options - Original error, extended params and emit mode.
+   * @return {IConwayAggregateError} Aggregate error.
+   */
+  aggregate: <Type extends ErrorType, ChildError>(
+    errorType: Type,
+    errors: readonly ChildError[],
+    message?: string,
+    ...args: ErrorFnArgs<Params[Type], AggregateErrorFnOptions<Params[Type]>>
+  ) => IConwayAggregateError<Type, Params[Type], ChildError>;
+};
+
+type FeatureAssertMethods<ErrorType extends string, Params extends ErrorParams<ErrorType>> = {
+  /**
+   * Throws error of the feature when condition is falsy, narrows condition otherwise.
+   *
+   * @param {unknown} condition - Condition to check.
+   * @param {ErrorType} errorType - Type of the error.
+   * @param {string} message - Error message.
+   * @param {ErrorFnOptions} options - Original error and extended params.
+   */
+  assert: <Type extends ErrorType>(
+    condition: unknown,
+    errorType: Type,
+    message: string | TemplatedMessage,
+    ...args: ErrorFnArgs<Params[Type]>
+  ) => asserts condition;
+  /**
+   * Throws error of the feature when value is `null` or `undefined`, narrows value otherwise.
+   *
+   * @param {T} value - Value to check.
+   * @param {ErrorType} errorType - Type of the error.
+   * @param {string} message - Error message.
+   * @param {ErrorFnOptions} options - Original error and extended params.
+   */
+  assertDefined: <T, Type extends ErrorType>(
+    value: T,
+    errorType: Type,
+    message: string | TemplatedMessage,
+    ...args: ErrorFnArgs<Params[Type]>
+  ) => asserts value is NonNullable<T>;
+  /**
+   * Throws error of the feature for value which should never be reached, e.g. in exhaustive `switch`.
+   *
+   * @param {never} value - Unexpected value.
+   * @param {ErrorType} [errorType] - Type of the error, `UnknownError` by default.
+   * @param {string} [message] - Error message, by default describes the value.
+   */
+  unreachable: (value: never, errorType?: ErrorType, message?: string | TemplatedMessage) => never;
+};
+
+type FromOptions = {
+  reparent?: boolean;
+  extendedParams?: ExtendedParams;
+};
+
+type FeatureFromMethod<ErrorType extends string, Params extends ErrorParams<ErrorType>> = {
+  /**
+   * Normalizes any thrown value into error of the feature, keeping the value as `originalError`.
+   * Conway errors are passed through as is, unless `reparent` option is set.
+   *
+   * @param {unknown} thrown - Thrown value.
+   * @param {ErrorType} [fallbackType] - Error type if extractor has not provided one, `UnknownError` by default.
+   * @param {FromOptions} [options] - Re-parenting of Conway errors and extended params.
+   * @return {IConwayError} Conway error.
+   */
+  from: (thrown: unknown, fallbackType?: ErrorType, options?: FromOptions) => IConwayError;
+};
+
+type Brand<T, B> = T & { __brand: B };
+
+type ErrorSubcontext<
+  Name extends string,
+  ErrorType extends string,
+  Params extends ErrorParams<ErrorType> = DefaultErrorParams<ErrorType>,
+> = Brand<Subcontext<Name, ErrorType, Params>, Name>;
+type ErrorFeature<
+  Name extends string,
+  ErrorType extends string,
+  Params extends ErrorParams<ErrorType> = DefaultErrorParams<ErrorType>,
+> = Brand<
+  CreateErrorFn<ErrorType, Params> &
+    FeatureResultMethods<ErrorType, Params> &
+    FeatureAggregateMethods<ErrorType, Params> &
+    FeatureAssertMethods<ErrorType, Params> &
+    FeatureFromMethod<ErrorType, Params>,
+  Name
+>;
+export type AnyFeatureOfSubcontext<S> = S extends ErrorSubcontext<infer Name, infer ErrorType, infer Params>
+  ? ErrorFeature<`${Name}/${string}`, ErrorType, Params>
+  : never;
+
+type Subcontext<Name extends string, ErrorType extends string, Params extends ErrorParams<ErrorType>> = {
+  /**
+   * Create a child context within the current context.
+   *
+   * @param {string} childContextName - The name of the child context.
+   * @param {ExtendedParams} extendedParams - Additional extended parameters for the child context.
+   * @param {ErrorContextOptions} [options] - Options of the child context, such as redaction rules.
+   * @return {Function} Function to create an error context with the specified child context name and extended params.
+   */
+  subcontext: <const ChildContextName extends string>(
+    subcontextName: ChildContextName,
+    extendedParams?: ExtendedParams,
+    options?: ErrorContextOptions
+  ) => ErrorSubcontext<`${Name}/${ChildContextName}`, ErrorType, Params>;
+  /**
+   * Creates a child feature within the current context.
+   *
+   * @param {string} childFeatureName - The name of the child feature.
+   * @param {ExtendedParams} [extendedParams={}] - Additional extended parameters for the child feature.
+   * @param {ErrorContextOptions} [options] - Options of the child feature, such as redaction rules.
+   * @return {Function} The created error feature.
+   */
+  feature: <const FeatureName extends string>(
+    featureName: FeatureName,
+    featureContextExtendedParams?: ExtendedParams,
+    options?: ErrorContextOptions
+  ) => ErrorFeature<`${Name}/${FeatureName}`, ErrorType, Params>;
+};
+
+type NarrowByType<E extends IConwayError, Type extends string> = [Extract<E, { name: Type }>] extends [never]
+  ? E & { name: Type }
+  : Extract<E, { name: Type }>;
+
+type MatchHandler<E extends IConwayError, Type, R> = Type extends "_"
+  ? (error: unknown) => R
+  : (error: NarrowByType<E, Type & string>) => R;
+
+type MatchHandlersOf<Shape, E extends IConwayError, R> = { [Type in keyof Shape]: MatchHandler<E, Type, R> };
+
+/**
+ * Handlers for `matchConwayError`: either every error type is handled, or `_` fallback is provided.
+ */
+export type MatchHandlers<E extends IConwayError, R> =
+  | MatchHandlersOf<Record<E["name"], true> & { _?: true }, E, R>
+  | MatchHandlersOf<Partial<Record<E["name"], true>> & { _: true }, E, R>;
+
+/**
+ * Calls handler matching the error type. Handlers are exhaustive over error types of typed Conway error.
+ * Fallback `_` handles other error types and non-Conway values; without it unmatched error is rethrown.
+ *
+ * @param {unknown} error - Error to match.
+ * @param {MatchHandlers} handlers - Handlers by error type and `_` fallback.
+ * @return {R} Result of the called handler.
+ */
+export function matchConwayError<E extends IConwayError, R>(error: E, handlers: MatchHandlers<E, R>): R;
+export function matchConwayError<R>(
+  error: unknown,
+  handlers: { [errorType: string]: ((error: IConwayError) => R) | undefined } & { _: (error: unknown) => R }
+): R;
+export function matchConwayError<R>(
+  error: unknown,
+  handlers: { [errorType: string]: ((error: never) => R) | undefined }
+): R {
+  const handler =
+    isConwayError(error) && error.name !== "_" && Object.prototype.hasOwnProperty.call(handlers, error.name)
+      ? handlers[error.name]
+      : handlers._;
+
+  if (!handler) {
+    throw error;
+  }
+
+  return (handler as (error: unknown) => R)(error);
+}
+
+/**
+ * Type guard which checks Conway error type.
+ *
+ * @param {unknown} error - Error to check.
+ * @param {string} errorType - Expected error type.
+ * @return {boolean}
+ */
+export function isErrorOfType<const ErrorType extends string>(
+  error: unknown,
+  errorType: ErrorType
+): error is IConwayError<ErrorType> {
+  return isConwayError(error) && error.name === errorType;
+}
+
+/**
+ * Type guard which checks that Conway error was created within the context or any of its subcontexts.
+ *
+ * @param {unknown} error - Error to check.
+ * @param {ErrorSubcontext} context - Context created by `createError`.
+ * @return {boolean}
+ */
+export function isFromContext<Name extends string, ErrorType extends string, Params extends ErrorParams<ErrorType>>(
+  error: unknown,
+  context: ErrorSubcontext<Name, ErrorType, Params>
+): error is ConwayErrorOf<Params> {
+  return isConwayError(error) && isPathWithin(error.contextsChunk, context.__brand);
+}
+
+/**
+ * Type guard which checks that Conway error was created by the feature.
+ *
+ * @param {unknown} error - Error to check.
+ * @param {ErrorFeature} feature - Feature created by `createError`.
+ * @return {boolean}
+ */
+export function isFromFeature<Name extends string, ErrorType extends string, Params extends ErrorParams<ErrorType>>(
+  error: unknown,
+  feature: ErrorFeature<Name, ErrorType, Params>
+): error is ConwayErrorOf<Params> {
+  return isConwayError(error) && error.contextPath === feature.__brand;
+}
+
+/**
+ * Type guard which checks if error is Conway error marked as retryable.
+ *
+ * @param {unknown} error - Error to check.
+ * @return {boolean}
+ */
+export function isRetryableError(error: unknown): error is IConwayError {
+  return isConwayError(error) && error.retryable;
+}
+
+/**
+ * Policy of `withRetry`. Extended params of final error are required when its params schema has required keys.
+ */
+export type RetryPolicy<ErrorType extends string = string, Params extends object = ExtendedParams> =
+  RetryOptions<ErrorType> & (Partial<Params> extends Params ? { extendedParams?: Params } : { extendedParams: Params });
+
+interface RetryOptions<ErrorType extends string> {
+  errorType: ErrorType;
+  message?: string;
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: number;
+  signal?: AbortSignal;
+  random?: () => number;
+  onRetry?: (error: IConwayError, attempt: number, delayMs: number) => void;
 }
 
-class ConwayError extends Error implements IConwayError {
-  readonly rootContext: string;
-  readonly contextsChunk: string;
-  readonly originalError?: OriginalError;
-  readonly extendedParams?: ExtendedParams;
+function getRetryDelay(policy: RetryOptions<string>, error: IConwayError, attempt: number) {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
 
-  feature = "";
+  const { initialDelayMs = 100, maxDelayMs = 30_000, factor = 2, jitter = 0.5, random = Math.random } = policy;
+  const delay = Math.min(maxDelayMs, initialDelayMs * factor ** (attempt - 1));
 
-  constructor(
-    name: string,
-    rootContext: string,
-    contextsChunk: string,
-    message: string,
-    emit: EmitFn,
-    originalError?: OriginalError,
-    extendedParams?: ExtendedParams
-  ) {
-    super(message);
-    this.name = name;
-    this.rootContext = rootContext;
-    this.contextsChunk = contextsChunk;
-    this.originalError = originalError;
-    this.emit = emit;
-    this.extendedParams = extendedParams;
-  }
+  return Math.round(delay * (1 - jitter * random()));
+}
 
-  emit: EmitFn;
+function getAbortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error("The operation was aborted");
 }
 
-type EmitFn = (extendedParams?: ExtendedParams) => void;
+function waitForRetry(delayMs: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal && getAbortReason(signal));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
 
 /**
- * Type guard which helps to understand if error is Conway error.
- * @param error
- * @return {boolean}
+ * Calls function until it succeeds, retrying only retryable Conway errors with exponential backoff and jitter.
+ * `retryAfterMs` of error overrides backoff delay. Other errors and abort reason are rethrown as is.
+ * When attempts run out, rejects with aggregate error of the feature which collects error of every attempt.
+ *
+ * @param {ErrorFeature} feature - Feature which creates final error.
+ * @param {Function} fn - Function to call, receives attempt number starting from 1.
+ * @param {RetryPolicy} policy - Type of final error, attempts, backoff and abort signal.
+ * @return {Promise} Result of the first successful attempt.
  */
-export function isConwayError(error: unknown): error is IConwayError {
-  return typeof error === "object" && error instanceof ConwayError;
-}
+export async function withRetry<
+  T,
+  Name extends string,
+  ErrorType extends string,
+  Params extends ErrorParams<ErrorType>,
+  Type extends ErrorType,
+>(
+  feature: ErrorFeature<Name, ErrorType, Params>,
+  fn: (attempt: number) => T | PromiseLike<T>,
+  policy: RetryPolicy<Type, Params[Type]>
+): Promise<T> {
+  const { maxAttempts = 3, signal } = policy;
+  const attemptErrors: IConwayError[] = [];
 
-function createErrorClass(name: string, rootContext: string) {
-  return class extends ConwayError {
-    constructor(
-      contextsChunk: string,
-      message: string,
-      emit: EmitFn,
-      originalError?: OriginalError,
-      extendedParams?: ExtendedParams
-    ) {
-      super(name, rootContext, contextsChunk, message, emit, originalError, extendedParams);
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
     }
-  };
-}
 
-function createContextedMessage(contextPath: string, featureName: string, message: string) {
-  return `${contextPath}/${featureName}: ${message}`;
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+
+      attemptErrors.push(error);
+
+      if (attempt >= maxAttempts) {
+        break;
+      }
+
+      const delayMs = getRetryDelay(policy, error, attempt);
+      policy.onRetry?.(error, attempt, delayMs);
+      await waitForRetry(delayMs, signal);
+    }
+  }
+
+  // policy type already requires extended params when schema of the final error type does
+  const aggregateArgs = [
+    { originalError: attemptErrors[attemptErrors.length - 1], extendedParams: policy.extendedParams },
+  ] as ErrorFnArgs<Params[Type], AggregateErrorFnOptions<Params[Type]>>;
+
+  throw feature.aggregate(
+    policy.errorType,
+    attemptErrors,
+    policy.message ?? `Failed after ${attemptErrors.length} attempts`,
+    ...aggregateArgs
+  );
 }
 
-function defaultHandleEmit(err: IConwayError) {
-  console.error(err);
+/**
+ * RFC 7807 problem details object, sent as `application/problem+json`.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
 }
 
-type ExtendedParams = Record<string, unknown>;
+/**
+ * Options of conversion of errors into problem details.
+ */
+export interface ProblemDetailsOptions {
+  typeBaseUri?: string;
+  instance?: string;
+  extensions?: string[];
+}
 
-type OriginalError = Error | Record<string, unknown> | unknown;
+const HTTP_STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  407: "Proxy Authentication Required",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  411: "Length Required",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  414: "URI Too Long",
+  415: "Unsupported Media Type",
+  416: "Range Not Satisfiable",
+  417: "Expectation Failed",
+  421: "Misdirected Request",
+  422: "Unprocessable Content",
+  423: "Locked",
+  424: "Failed Dependency",
+  425: "Too Early",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  451: "Unavailable For Legal Reasons",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+  505: "HTTP Version Not Supported",
+  506: "Variant Also Negotiates",
+  507: "Insufficient Storage",
+  508: "Loop Detected",
+  511: "Network Authentication Required",
+};
 
-interface CreateErrorOptions {
-  handleEmit?: (err: IConwayError, extendedParams?: ExtendedParams) => void;
-  extendedParams?: ExtendedParams;
+function getHttpStatusTitle(status: number) {
+  return HTTP_STATUS_TITLES[status] ?? (status >= 400 && status < 500 ? "Client Error" : "Server Error");
 }
 
-const defaultErrorOptions: CreateErrorOptions = {
-  handleEmit: defaultHandleEmit,
-  extendedParams: {},
-};
+const PROBLEM_DETAILS_MEMBERS = ["type", "title", "status", "detail", "instance"];
 
-type ErrorTypeConfig = ReadonlyArray<{
-  errorType: string;
-  createMessagePostfix?: (originalError?: OriginalError) => string;
-}>;
+/**
+ * Converts any error into RFC 7807 problem details. Only public Conway errors expose their message, code
+ * and extended params listed in `extensions` (none by default), other errors get generic title of HTTP status.
+ * Title is error type only for typed problems, `about:blank` problems keep HTTP status phrase (RFC 7807, 4.2).
+ *
+ * @param {unknown} error - Error to convert.
+ * @param {ProblemDetailsOptions} [options] - Base URI of problem types, instance URI and extended params to expose.
+ * @return {ProblemDetails} Problem details object.
+ */
+export function toProblemDetails(error: unknown, options: ProblemDetailsOptions = {}): ProblemDetails {
+  const status = (isConwayError(error) && error.httpStatus) || 500;
+  const problem: ProblemDetails = {
+    type: "about:blank",
+    title: getHttpStatusTitle(status),
+    status,
+  };
 
-type ErrorMap = Record<
-  string,
-  {
-    errorClass: ReturnType<typeof createErrorClass>;
-    createMessagePostfix?: (originalError?: OriginalError) => string;
+  if (options.instance !== undefined) {
+    problem.instance = options.instance;
   }
->;
 
-type ErrorFnOptions = {
-  originalError?: OriginalError;
-  extendedParams?: ExtendedParams;
-};
+  if (!isConwayError(error) || error.exposure !== "public") {
+    return problem;
+  }
 
-type CreateErrorFn<ErrorType extends string> = (
-  errorType: ErrorType,
-  message: string,
-  options?: ErrorFnOptions
-) => IConwayError;
+  if (options.typeBaseUri !== undefined) {
+    problem.type = `${options.typeBaseUri}${encodeURIComponent(String(error.code))}`;
+  }
 
-type Brand<T, B> = T & { __brand: B };
+  if (problem.type !== "about:blank") {
+    problem.title = error.name;
+  }
 
-type ErrorSubcontext<Name extends string, ErrorType extends string> = Brand<Subcontext<Name, ErrorType>, Name>;
-type ErrorFeature<Name extends string, ErrorType extends string> = Brand<CreateErrorFn<ErrorType>, Name>;
-export type AnyFeatureOfSubcontext<S> = S extends ErrorSubcontext<infer Name, infer ErrorType>
-  ? ErrorFeature<`${Name}/${string}`, ErrorType>
-  : never;
+  problem.detail = error.rawMessage;
+  problem.code = error.code;
 
-type Subcontext<Name extends string, ErrorType extends string> = {
-  /**
-   * Create a child context within the current context.
-   *
-   * @param {string} childContextName - The name of the child context.
-   * @param {ExtendedParams} extendedParams - Additional extended parameters for the child context.
-   * @return {Function} Function to create an error context with the specified child context name and extended params.
-   */
-  subcontext: <const ChildContextName extends string>(
-    subcontextName: ChildContextName,
-    extendedParams?: ExtendedParams
-  ) => ErrorSubcontext<`${Name}/${ChildContextName}`, ErrorType>;
-  /**
-   * Creates a child feature within the current context.
-   *
-   * @param {string} childFeatureName - The name of the child feature.
-   * @param {ExtendedParams} [extendedParams={}] - Additional extended parameters for the child feature.
-   * @return {Function} The created error feature.
-   */
-  feature: <const FeatureName extends string>(
-    featureName: FeatureName,
-    featureContextExtendedParams?: ExtendedParams
-  ) => ErrorFeature<`${Name}/${FeatureName}`, ErrorType>;
-};
+  for (const [key, value] of Object.entries(error.extendedParams ?? {})) {
+    if (!PROBLEM_DETAILS_MEMBERS.includes(key) && options.extensions?.includes(key)) {
+      problem[key] = value;
+    }
+  }
+
+  return problem;
+}
+
+/**
+ * Minimal response of Node `http` module or Express.
+ */
+export interface ProblemResponse {
+  statusCode: number;
+  headersSent?: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body: string): unknown;
+}
+
+/**
+ * Minimal request of Node `http` module or Express.
+ */
+export interface ProblemRequest {
+  url?: string;
+  originalUrl?: string;
+}
+
+/**
+ * Writes error to response as `application/problem+json`.
+ *
+ * @param {ProblemResponse} res - Response of Node `http` module or Express.
+ * @param {unknown} error - Error to send.
+ * @param {ProblemDetailsOptions} [options] - Options of conversion into problem details.
+ */
+export function sendProblemDetails(res: ProblemResponse, error: unknown, options: ProblemDetailsOptions = {}) {
+  const problem = toProblemDetails(error, options);
+
+  res.statusCode = problem.status;
+  res.setHeader("Content-Type", "application/problem+json");
+  res.end(JSON.stringify(problem));
+}
+
+/**
+ * Creates Express-compatible error middleware which responds with problem details.
+ * Errors after response headers were sent are passed to `next`.
+ *
+ * @param {object} [options] - Options of conversion into problem details and `onError` hook, e.g. to emit errors.
+ * @return {Function} Error middleware `(err, req, res, next)`.
+ */
+export function createProblemDetailsHandler(
+  options: Omit<ProblemDetailsOptions, "instance"> & { onError?: (error: unknown) => void } = {}
+) {
+  const { onError, ...problemOptions } = options;
+
+  return (error: unknown, req: ProblemRequest, res: ProblemResponse, next?: (error: unknown) => void) => {
+    onError?.(error);
+
+    if (res.headersSent) {
+      next?.(error);
+      return;
+    }
+
+    sendProblemDetails(res, error, { ...problemOptions, instance: req.originalUrl ?? req.url });
+  };
+}
 
 /**
  * Function to create an error context with specified error types and options.
@@ -150,49 +2829,240 @@ type Subcontext<Name extends string, ErrorType extends string> = {
  * @param {ErrorTypeConfig} errorTypes - Array of error types and optional message postfix creation functions.
  * @param {CreateErrorOptions} options - Options for error creation, including custom throw function and extended params.
  * @return {Function} Function to create an error context with specific context name and extended params.
+ * Stable error classes of configured error types are available as `errorClasses` property of the function.
  */
-export function createError<ErrorTypes extends ErrorTypeConfig>(errorTypes?: ErrorTypes, options?: CreateErrorOptions) {
-  const _options = { ...defaultErrorOptions, ...options };
+export function createError<ErrorTypes extends ErrorTypeConfig>(
+  errorTypes?: ErrorTypes,
+  options?: CreateErrorOptions<ErrorParamsMap<ErrorTypes>>
+) {
+  type ErrorType = ErrorTypes[number]["errorType"];
+  type Params = ErrorParamsMap<ErrorTypes>;
+
+  const _options = { ...defaultErrorOptions, ...options } as CreateErrorOptions;
   const initialExtendedParams = options?.extendedParams ?? {};
+  const extractors = [...(_options.extractors ?? [])];
+  let handleEmit = _options.handleEmit;
+  const onEmitError = _options.onEmitError ?? defaultHandleEmitError;
+  const pendingEmits = new Set<Promise<void>>();
+  let currentBatch: { events: EmitEvent[]; delivered: Promise<void>; deliver: () => void } | undefined;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
 
-  return <const ContextName extends string>(contextName: ContextName, extendedParams: ExtendedParams = {}) => {
-    const outerExtendedParams = { ...initialExtendedParams, ...extendedParams };
+  const handleEmitError = (error: unknown) => {
+    try {
+      onEmitError(error);
+    } catch (handlerError) {
+      // `emit` never rejects, so failure of `onEmitError` itself can only be logged
+      defaultHandleEmitError(handlerError);
+    }
+  };
 
-    const errorsMap: ErrorMap = Array.isArray(errorTypes)
-      ? errorTypes.reduce<ErrorMap>((acc, { errorType, createMessagePostfix }) => {
-          acc[errorType] = {
-            errorClass: createErrorClass(errorType, contextName),
-            createMessagePostfix,
-          };
-          return acc;
-        }, {})
-      : {};
+  const trackEmit = (promise: Promise<void>) => {
+    const untrack = () => pendingEmits.delete(promise);
+    pendingEmits.add(promise);
+    promise.then(untrack, untrack);
+    return promise;
+  };
+
+  const flushBatch = () => {
+    const batch = currentBatch;
+    currentBatch = undefined;
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+
+    if (batch === undefined) {
+      return Promise.resolve();
+    }
+
+    const { handleBatch } = _options.buffer ?? {};
+    new Promise<unknown>((resolve) =>
+      resolve(
+        handleBatch
+          ? handleBatch(batch.events)
+          : Promise.all(batch.events.map((event) => handleEmit?.(event.error, event.extendedParams)))
+      )
+    )
+      .then(noop, handleEmitError)
+      .then(batch.deliver);
+
+    return batch.delivered;
+  };
+
+  const deliverEmit = (error: IConwayError, extendedParams: ExtendedParams): Promise<void> => {
+    if (_options.buffer === undefined || closed) {
+      return trackEmit(
+        new Promise<unknown>((resolve) => resolve(handleEmit?.(error, extendedParams))).then(noop, handleEmitError)
+      );
+    }
+
+    if (currentBatch === undefined) {
+      let deliver = noop;
+      const delivered = trackEmit(
+        new Promise<void>((resolve) => {
+          deliver = resolve;
+        })
+      );
+      currentBatch = { events: [], delivered, deliver };
+    }
+
+    const batch = currentBatch;
+    batch.events.push({ error, extendedParams });
+
+    if (batch.events.length >= (_options.buffer.maxSize ?? 100)) {
+      flushBatch();
+    } else if (flushTimer === undefined) {
+      flushTimer = setTimeout(flushBatch, _options.buffer.flushIntervalMs ?? 1000);
+    }
+
+    return batch.delivered;
+  };
+
+  const dispatchEmit = (
+    error: IConwayError,
+    extendedParams: ExtendedParams,
+    emitHandlers: ContextEmitHandler[]
+  ): Promise<void> => {
+    _options.metrics?.recordEmitted(error);
+
+    let propagationStopped = false;
+    const event: ContextEmitEvent = {
+      error,
+      extendedParams,
+      stopPropagation: () => {
+        propagationStopped = true;
+      },
+    };
+    const pendingHandlers: Promise<void>[] = [];
 
-    const UnknownError = createErrorClass("UnknownError", contextName);
+    // handlers of nested declarations run first and bubble up to root `handleEmit`
+    for (const emitHandler of [...emitHandlers].reverse()) {
+      try {
+        pendingHandlers.push(trackEmit(Promise.resolve(emitHandler(event)).then(noop, handleEmitError)));
+      } catch (handlerError) {
+        handleEmitError(handlerError);
+      }
+
+      if (propagationStopped) {
+        return Promise.all(pendingHandlers).then(noop);
+      }
+    }
+
+    pendingHandlers.push(deliverEmit(error, event.extendedParams));
+
+    return Promise.all(pendingHandlers).then(noop);
+  };
+  const keepStackFrame = (frame: StackFrame) =>
+    (_options.keepLibraryFrames || !isLibraryFrame(frame)) && (_options.stackFrameFilter?.(frame) ?? true);
+  const initialSettings: ContextSettings = {
+    redaction: _options.redaction ? [_options.redaction] : [],
+    formatMessage: _options.formatMessage ?? defaultFormatMessage,
+    emitHandlers: [],
+  };
+
+  const errorsMap: ErrorMap = Array.isArray(errorTypes)
+    ? errorTypes.reduce<ErrorMap>((acc, { errorType, ...config }) => {
+        acc[errorType] = {
+          errorClass: createErrorClass(errorType),
+          ...config,
+        };
+        return acc;
+      }, {})
+    : {};
+
+  const UnknownError = createErrorClass("UnknownError");
+  const errorTypeNames = Object.keys(errorsMap);
+  const errorCodeOwners = new Map<ErrorCode, string>();
+
+  const claimErrorCode = (code: ErrorCode, owner: string) => {
+    const currentOwner = errorCodeOwners.get(code);
+
+    if (currentOwner !== undefined && currentOwner !== owner) {
+      throw new TypeError(`Error code ${String(code)} of ${owner} collides with ${currentOwner}`);
+    }
+
+    errorCodeOwners.set(code, owner);
+  };
+
+  for (const errorType of errorTypeNames) {
+    const code = errorsMap[errorType]?.code;
+
+    if (code !== undefined) {
+      claimErrorCode(code, errorType);
+    }
+  }
+
+  const errorClasses = Object.keys(errorsMap).reduce<Record<string, ReturnType<typeof createErrorClass>>>(
+    (acc, errorType) => {
+      acc[errorType] = errorsMap[errorType]?.errorClass ?? UnknownError;
+      return acc;
+    },
+    { UnknownError }
+  ) as unknown as ErrorClasses<Params>;
+
+  const createErrorContext = <const ContextName extends string>(
+    contextName: ContextName,
+    extendedParams: ExtendedParams = {},
+    contextOptions: ErrorContextOptions = {}
+  ) => {
+    const rootContext = contextName;
+    const outerExtendedParams = { ...initialExtendedParams, ...extendedParams };
+    const outerSettings = mergeContextSettings(initialSettings, contextOptions);
 
     const _createSubcontext =
-      <const ContextName extends string>(contextName: ContextName, subContextExtendedParams: ExtendedParams) =>
+      <const ContextName extends string>(
+        contextName: ContextName,
+        subContextExtendedParams: ExtendedParams,
+        subcontextSettings: ContextSettings
+      ) =>
       <const ChildContextName extends string>(
         childContextName: ChildContextName,
-        extendedParams: ExtendedParams = {}
+        extendedParams: ExtendedParams = {},
+        options: ErrorContextOptions = {}
       ) => {
         const subErrorContext = { ...subContextExtendedParams, ...extendedParams };
-        return _createErrorContext(`${contextName}/${childContextName}`, subErrorContext);
+        const subcontextPath = `${contextName}/${childContextName}` as const;
+        const settings = mergeContextSettings(subcontextSettings, options);
+
+        _options.registry?.record({
+          kind: "subcontext",
+          name: childContextName,
+          path: subcontextPath,
+          rootContext,
+          parentPath: contextName,
+          extendedParams: redactParams(settings, subErrorContext),
+          errorTypes: errorTypeNames,
+        });
+
+        return _createErrorContext(subcontextPath, subErrorContext, settings);
       };
 
     function _createErrorContext<const ContextName extends string>(
       _contextName: ContextName,
-      contextExtendedParams: ExtendedParams = outerExtendedParams
-    ): ErrorSubcontext<ContextName, ErrorTypes[number]["errorType"]> {
+      contextExtendedParams: ExtendedParams = outerExtendedParams,
+      contextSettings: ContextSettings = outerSettings
+    ): ErrorSubcontext<ContextName, ErrorType, Params> {
       return {
         __brand: _contextName,
-        subcontext: _createSubcontext(_contextName, contextExtendedParams),
+        subcontext: _createSubcontext(_contextName, contextExtendedParams, contextSettings),
         feature: <const FeatureName extends string>(
           childFeatureName: FeatureName,
-          extendedParams: ExtendedParams = {}
+          extendedParams: ExtendedParams = {},
+          options: ErrorContextOptions = {}
         ) => {
           const featureErrorContext = { ...contextExtendedParams, ...extendedParams };
-          return _createErrorFeature(childFeatureName, _contextName, featureErrorContext);
+          const featureSettings = mergeContextSettings(contextSettings, options);
+
+          _options.registry?.record({
+            kind: "feature",
+            name: childFeatureName,
+            path: `${_contextName}/${childFeatureName}`,
+            rootContext,
+            parentPath: _contextName,
+            extendedParams: redactParams(featureSettings, featureErrorContext),
+            errorTypes: errorTypeNames,
+          });
+
+          return _createErrorFeature(childFeatureName, _contextName, featureErrorContext, featureSettings);
         },
       };
     }
@@ -200,41 +3070,317 @@ export function createError<ErrorTypes extends ErrorTypeConfig>(errorTypes?: Err
     function _createErrorFeature<const ContextName extends string, const FeatureName extends string>(
       featureName: FeatureName,
       contextName: ContextName,
-      featureContextExtendedParams: ExtendedParams = {}
-    ): ErrorFeature<`${ContextName}/${FeatureName}`, ErrorTypes[number]["errorType"]> {
-      const createNewErrorObject: CreateErrorFn<ErrorTypes[number]["errorType"]> = (
-        errorType,
-        message: string,
+      featureContextExtendedParams: ExtendedParams = {},
+      featureSettings: ContextSettings = outerSettings
+    ): ErrorFeature<`${ContextName}/${FeatureName}`, ErrorType, Params> {
+      const redactor = createRedactor(featureSettings.redaction);
+
+      const getErrorCode = (errorType: string) =>
+        errorsMap[errorType]?.code ?? createErrorCode(contextName, featureName, errorType);
+
+      for (const errorType of errorTypeNames) {
+        if (errorsMap[errorType]?.code === undefined) {
+          claimErrorCode(getErrorCode(errorType), `${contextName}/${featureName}:${errorType}`);
+        }
+      }
+
+      const createNewErrorObject = (
+        errorType: string,
+        messageInput: string | TemplatedMessage | Record<string, MessageValue>,
         options?: ErrorFnOptions
-      ) => {
+      ): IConwayError => {
         const errorMapItem = errorsMap[errorType];
-        const messagePostfix =
-          options?.originalError && errorMapItem?.createMessagePostfix
-            ? errorMapItem.createMessagePostfix(options?.originalError)
-            : "";
+        const message = resolveMessage(errorType, errorMapItem?.message, messageInput);
+        const createMessage = (rawMessage: string, originalError?: OriginalError, extendedParams?: ExtendedParams) =>
+          featureSettings.formatMessage({
+            contextSegments: contextName.split("/"),
+            feature: featureName,
+            errorType,
+            rawMessage,
+            postfix:
+              originalError && errorMapItem?.createMessagePostfix ? errorMapItem.createMessagePostfix(originalError) : "",
+            extendedParams,
+          });
+
+        validateParams(errorType, errorMapItem?.params, options?.extendedParams);
+
+        const ambientExtendedParams = getErrorContext();
+        const errorExtendedParams = ambientExtendedParams
+          ? { ...ambientExtendedParams, ...options?.extendedParams }
+          : options?.extendedParams;
 
         const emit: EmitFn = (extendedParams = {}) => {
-          const _extendedParams = { ...featureContextExtendedParams, ...options?.extendedParams, ...extendedParams };
-          _options.handleEmit?.(error, _extendedParams);
+          const _extendedParams = {
+            ...featureContextExtendedParams,
+            ...getErrorContext(),
+            ...errorExtendedParams,
+            ...extendedParams,
+          };
+          return dispatchEmit(
+            error,
+            redactor ? redactor.value(_extendedParams) : _extendedParams,
+            featureSettings.emitHandlers
+          );
         };
 
+        const messageTemplate = isTemplatedMessage(message)
+          ? { id: message.id, template: message.template, values: message.values }
+          : undefined;
+        const redactedTemplate =
+          redactor && messageTemplate
+            ? { ...messageTemplate, values: redactor.value(messageTemplate.values) }
+            : messageTemplate;
+        const originalError = redactor ? redactor.value(options?.originalError) : options?.originalError;
+        const redactedExtendedParams = redactor ? redactor.value(errorExtendedParams) : errorExtendedParams;
+        const rawMessage = redactedTemplate
+          ? interpolateMessage(redactedTemplate.template, redactedTemplate.values)
+          : String(message);
+        const errorMessage = createMessage(rawMessage, originalError, redactedExtendedParams);
+
         const error = new (errorMapItem?.errorClass ?? UnknownError)(
+          rootContext,
           contextName,
-          createContextedMessage(contextName, featureName, message + messagePostfix),
+          redactor ? redactor.message(errorMessage) : errorMessage,
           emit,
-          options?.originalError,
-          options?.extendedParams
+          originalError,
+          redactedExtendedParams
         );
 
         error.feature = featureName;
+        error.rawMessage = redactor ? redactor.message(rawMessage) : rawMessage;
+        error.code = getErrorCode(errorType);
+        error.messageTemplate = redactedTemplate;
+        error.retryable = options?.retryable ?? errorMapItem?.retryable ?? false;
+        error.retryAfterMs = options?.retryAfterMs ?? errorMapItem?.retryAfterMs;
+        error.httpStatus = errorMapItem?.httpStatus;
+        error.exposure = errorMapItem?.exposure ?? "private";
+        error.owner = featureSettings.owner;
+        stackFrameFilters.set(error, keepStackFrame);
+
+        if (redactor) {
+          redactedOriginals.set(error, {
+            message: createMessage(String(message), options?.originalError, errorExtendedParams),
+            extendedParams: errorExtendedParams,
+            originalError: options?.originalError,
+            messageTemplate,
+          });
+        }
+
+        error.fingerprint = createErrorFingerprint(
+          error,
+          _options.fingerprintMessageTemplate ? error.messageTemplate?.id : undefined
+        );
+        _options.metrics?.recordCreated(error);
+
+        return error;
+      };
+
+      // `from` and result helpers normalize thrown values the same way, including registered extractors
+      const normalizeThrown = (thrown: unknown, extendedParams?: ExtendedParams) => {
+        const extracted = extractError(thrown, extractors);
+
+        return {
+          errorType: extracted.errorType,
+          // full message of Conway error already carries its context path
+          message: isConwayError(thrown) ? thrown.rawMessage : extracted.message,
+          extendedParams:
+            extracted.extendedParams || extendedParams ? { ...extracted.extendedParams, ...extendedParams } : undefined,
+        };
+      };
+
+      const wrapThrown = (
+        thrown: unknown,
+        errorType: string,
+        message?: string | TemplatedMessage,
+        options?: ErrorFnOptions
+      ) => {
+        const normalized = normalizeThrown(thrown, options?.extendedParams);
+
+        return createNewErrorObject(errorType, message ?? normalized.message, {
+          ...options,
+          originalError: thrown,
+          extendedParams: normalized.extendedParams,
+        });
+      };
+
+      const resultMethods = {
+        ok,
+        err: (errorType: string, message: string | TemplatedMessage, options?: ErrorFnOptions) =>
+          err(createNewErrorObject(errorType, message, options)),
+        fromPromise: <T>(
+          promise: PromiseLike<T>,
+          errorType: string,
+          message?: string | TemplatedMessage,
+          options?: ErrorFnOptions
+        ) =>
+          Promise.resolve(promise).then(ok, (thrown) => err(wrapThrown(thrown, errorType, message, options))),
+        fromThrowable: <T>(
+          fn: () => T,
+          errorType: string,
+          message?: string | TemplatedMessage,
+          options?: ErrorFnOptions
+        ) => {
+          try {
+            return ok(fn());
+          } catch (thrown) {
+            return err(wrapThrown(thrown, errorType, message, options));
+          }
+        },
+      };
+
+      const aggregate = (
+        errorType: string,
+        errors: readonly unknown[],
+        message?: string,
+        options?: AggregateErrorFnOptions
+      ) => {
+        const children = [...errors];
+        const error = createNewErrorObject(errorType, summarizeErrors(children, message), options);
+        setAggregatedErrors(error, children);
+
+        if ((options?.emit ?? _options.aggregateEmit) === "children") {
+          error.emit = (extendedParams = {}) =>
+            Promise.all(
+              children.map((child) => {
+                const childError = isConwayError(child) ? child : wrapThrown(child, errorType, undefined, options);
+                return childError.emit({ ...error.extendedParams, ...extendedParams });
+              })
+            ).then(noop);
+        }
 
         return error;
       };
 
-      Object.assign(createNewErrorObject, { __brand: `${contextName}/${featureName}` as const });
-      return createNewErrorObject as ErrorFeature<`${ContextName}/${FeatureName}`, ErrorTypes[number]["errorType"]>;
+      const assertMethods = {
+        assert: (
+          condition: unknown,
+          errorType: string,
+          message: string | TemplatedMessage,
+          options?: ErrorFnOptions
+        ) => {
+          if (!condition) {
+            throw createNewErrorObject(errorType, message, options);
+          }
+        },
+        assertDefined: (
+          value: unknown,
+          errorType: string,
+          message: string | TemplatedMessage,
+          options?: ErrorFnOptions
+        ) => {
+          if (value === null || value === undefined) {
+            throw createNewErrorObject(errorType, message, options);
+          }
+        },
+        unreachable: (value: unknown, errorType = "UnknownError", message?: string | TemplatedMessage): never => {
+          throw createNewErrorObject(errorType, message ?? `Unexpected value: ${formatCause(value)}`);
+        },
+      };
+
+      const from = (thrown: unknown, fallbackType = "UnknownError", options: FromOptions = {}) => {
+        if (isConwayError(thrown) && !options.reparent) {
+          return thrown;
+        }
+
+        const normalized = normalizeThrown(thrown, options.extendedParams);
+        const inheritedType = isConwayError(thrown) && thrown.name in errorsMap ? thrown.name : undefined;
+
+        return createNewErrorObject(normalized.errorType ?? inheritedType ?? fallbackType, normalized.message, {
+          originalError: thrown,
+          extendedParams: normalized.extendedParams,
+        });
+      };
+
+      Object.assign(createNewErrorObject, resultMethods, assertMethods, {
+        aggregate,
+        from,
+        __brand: `${contextName}/${featureName}` as const,
+      });
+      return createNewErrorObject as unknown as ErrorFeature<`${ContextName}/${FeatureName}`, ErrorType, Params>;
     }
 
+    _options.registry?.record({
+      kind: "context",
+      name: contextName,
+      path: contextName,
+      rootContext,
+      extendedParams: redactParams(outerSettings, outerExtendedParams),
+      errorTypes: errorTypeNames,
+    });
+
     return _createErrorContext(contextName);
   };
+
+  /**
+   * Registers extractor of thrown values for `feature.from`. Extractors registered later take precedence.
+   *
+   * @param {ErrorExtractor} extractor - Extractor of domain-specific shape.
+   */
+  const registerExtractor = (extractor: ErrorExtractor) => {
+    extractors.unshift(extractor);
+  };
+
+  /**
+   * Replaces emit handler of all errors of the factory, e.g. with recorder in tests.
+   *
+   * @param {Function} emitHandler - New emit handler.
+   * @return {Function} Function which restores previous emit handler.
+   */
+  const replaceEmitHandler = (emitHandler: NonNullable<CreateErrorOptions<Params>["handleEmit"]>) => {
+    const previousHandleEmit = handleEmit;
+    handleEmit = emitHandler as CreateErrorOptions["handleEmit"];
+
+    return () => {
+      handleEmit = previousHandleEmit;
+    };
+  };
+
+  /**
+   * Delivers buffered errors and waits for all pending emits, including async emit handlers.
+   *
+   * @return {Promise<void>} Promise which resolves when all emits settle.
+   */
+  const flush = async () => {
+    await flushBatch();
+
+    if (isFlushable(handleEmit)) {
+      await handleEmit.flush();
+    }
+
+    await Promise.all([...pendingEmits]);
+  };
+
+  /**
+   * Rebuilds serialized error as instance of error class of the factory, emits go to the factory emit handler.
+   *
+   * @param {string | SerializedConwayError} json - Serialized error or its JSON string.
+   * @param {DeserializeOptions} options - Options for rebuilt error, overriding the factory ones.
+   * @return {IConwayError} Conway error with working `emit`.
+   */
+  const deserialize = (json: string | SerializedConwayError, options: DeserializeOptions = {}) =>
+    deserializeConwayError(json, {
+      errorClasses,
+      handleEmit: (error, extendedParams) => deliverEmit(error, extendedParams ?? {}),
+      ...options,
+    });
+
+  /**
+   * Flushes pending emits and turns off buffering, later emits are delivered immediately.
+   * Call before exit of serverless function or CLI.
+   *
+   * @return {Promise<void>} Promise which resolves when all emits settle.
+   */
+  const close = () => {
+    closed = true;
+    return flush();
+  };
+
+  return Object.assign(createErrorContext, {
+    errorClasses,
+    registerExtractor,
+    replaceEmitHandler,
+    deserialize,
+    flush,
+    close,
+  });
 }
@@ -0,0 +1,208 @@
+import { type IConwayError, isConwayError, type SerializedValue, serializeConwayError } from "./index";
+
+type ExtendedParams = Record<string, unknown>;
+
+/**
+ * Emit captured by `EmitRecorder`.
+ */
+export interface RecordedEmit {
+  error: IConwayError;
+  extendedParams: ExtendedParams;
+}
+
+/**
+ * In-memory emit handler for tests.
+ */
+export interface EmitRecorder {
+  readonly records: RecordedEmit[];
+  readonly errors: IConwayError[];
+  handleEmit: (error: IConwayError, extendedParams?: ExtendedParams) => void;
+  attach(factory: { replaceEmitHandler(handler: EmitRecorder["handleEmit"]): () => void }): () => void;
+  clear(): void;
+}
+
+/**
+ * Creates in-memory emit recorder. Pass `handleEmit` to `createError` options or `attach` it to existing factory.
+ *
+ * @return {EmitRecorder} Emit recorder.
+ */
+export function createEmitRecorder(): EmitRecorder {
+  const records: RecordedEmit[] = [];
+
+  const handleEmit: EmitRecorder["handleEmit"] = (error, extendedParams = {}) => {
+    records.push({ error, extendedParams });
+  };
+
+  return {
+    records,
+    get errors() {
+      return records.map((record) => record.error);
+    },
+    handleEmit,
+    attach: (factory) => factory.replaceEmitHandler(handleEmit),
+    clear: () => {
+      records.length = 0;
+    },
+  };
+}
+
+function isPathWithin(path: string, prefix: string) {
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+function describeThrown(thrown: unknown) {
+  return thrown instanceof Error ? `${thrown.name}: ${thrown.message}` : String(thrown);
+}
+
+function createAssertionError(message: string, actual?: unknown, expected?: unknown) {
+  return Object.assign(new Error(message), { name: "AssertionError", actual, expected });
+}
+
+function isPartialMatch(actual: unknown, expected: unknown): boolean {
+  if (typeof expected !== "object" || expected === null || typeof actual !== "object" || actual === null) {
+    return Object.is(actual, expected);
+  }
+
+  return Object.entries(expected).every(([key, value]) =>
+    isPartialMatch((actual as ExtendedParams)[key], value)
+  );
+}
+
+/**
+ * Chainable assertions of Conway error, which throw `AssertionError` and work with any test runner.
+ */
+export interface ConwayErrorAssertions {
+  readonly error: IConwayError;
+  toHaveType(errorType: string): ConwayErrorAssertions;
+  toHaveContext(contextPath: string): ConwayErrorAssertions;
+  toHaveFeature(feature: string): ConwayErrorAssertions;
+  toHaveMessage(message: string | RegExp): ConwayErrorAssertions;
+  toHaveExtendedParams(extendedParams: ExtendedParams): ConwayErrorAssertions;
+  toHaveOriginalError(originalError?: unknown): ConwayErrorAssertions;
+}
+
+function createConwayErrorAssertions(thrown: unknown): ConwayErrorAssertions {
+  if (!isConwayError(thrown)) {
+    throw createAssertionError(`Expected Conway error, got ${describeThrown(thrown)}`, thrown);
+  }
+
+  const error = thrown;
+  const check = (passed: boolean, message: string, actual: unknown, expected: unknown) => {
+    if (!passed) {
+      throw createAssertionError(message, actual, expected);
+    }
+    return assertions;
+  };
+
+  const assertions: ConwayErrorAssertions = {
+    error,
+    toHaveType: (errorType) =>
+      check(error.name === errorType, `Expected error type ${errorType}, got ${error.name}`, error.name, errorType),
+    toHaveContext: (contextPath) =>
+      check(
+        isPathWithin(error.contextPath, contextPath),
+        `Expected error from context ${contextPath}, got ${error.contextPath}`,
+        error.contextPath,
+        contextPath
+      ),
+    toHaveFeature: (feature) =>
+      check(
+        error.feature === feature,
+        `Expected error of feature ${feature}, got ${error.feature}`,
+        error.feature,
+        feature
+      ),
+    toHaveMessage: (message) =>
+      check(
+        typeof message === "string" ? error.message === message : message.test(error.message),
+        `Expected error message ${String(message)}, got ${error.message}`,
+        error.message,
+        message
+      ),
+    toHaveExtendedParams: (extendedParams) =>
+      check(
+        isPartialMatch(error.extendedParams, extendedParams),
+        "Expected error extended params to match",
+        error.extendedParams,
+        extendedParams
+      ),
+    toHaveOriginalError: (...args: [originalError?: unknown]) =>
+      check(
+        args.length === 0 ? error.originalError !== undefined : error.originalError === args[0],
+        "Expected error original error to match",
+        error.originalError,
+        args[0]
+      ),
+  };
+
+  return assertions;
+}
+
+/**
+ * Asserts that function throws Conway error, or that value is Conway error.
+ *
+ * @param {Function | unknown} fnOrError - Function which should throw, or error itself.
+ * @return {ConwayErrorAssertions} Chainable assertions of the error.
+ */
+export function expectConwayError(fnOrError: (() => unknown) | unknown): ConwayErrorAssertions {
+  if (typeof fnOrError !== "function") {
+    return createConwayErrorAssertions(fnOrError);
+  }
+
+  try {
+    fnOrError();
+  } catch (thrown) {
+    return createConwayErrorAssertions(thrown);
+  }
+
+  throw createAssertionError("Expected function to throw Conway error");
+}
+
+/**
+ * Asserts that async function or promise rejects with Conway error.
+ *
+ * @param {Function | Promise} fnOrPromise - Async function or promise which should reject.
+ * @return {Promise<ConwayErrorAssertions>} Chainable assertions of the rejection reason.
+ */
+export async function expectConwayErrorAsync(
+  fnOrPromise: (() => PromiseLike<unknown>) | PromiseLike<unknown>
+): Promise<ConwayErrorAssertions> {
+  try {
+    await (typeof fnOrPromise === "function" ? fnOrPromise() : fnOrPromise);
+  } catch (thrown) {
+    return createConwayErrorAssertions(thrown);
+  }
+
+  throw createAssertionError("Expected promise to reject with Conway error");
+}
+
+function stripStacks(value: SerializedValue | undefined): SerializedValue | undefined {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripStacks(item) ?? null);
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const result: { [key: string]: SerializedValue } = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    const stripped = stripStacks(item);
+    if (key !== "stack" && stripped !== undefined) {
+      result[key] = stripped;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats Conway error for snapshot tests: serialized form without stack traces, including nested errors.
+ *
+ * @param {IConwayError} error - Conway error.
+ * @return {SerializedValue} Stable plain object.
+ */
+export function toErrorSnapshot(error: IConwayError): SerializedValue {
+  return stripStacks(serializeConwayError(error) as unknown as SerializedValue) ?? null;
+}